@@ -4,9 +4,13 @@
  * This file demonstrates how to use the analyzer programmatically
  */
 
+import * as dotenv from 'dotenv';
 import { ShadcnIssueAnalyzer } from './src/analyzer';
 import { Logger } from './src/utils/logger';
 
+// The analyzer reads OPENAI_API_KEY and friends from the environment when no config is passed
+dotenv.config();
+
 async function runExample() {
   const logger = new Logger(true); // verbose mode
 
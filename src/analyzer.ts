@@ -1,66 +1,152 @@
 import { GitHubService } from './services/github';
-import { OpenAIService } from './services/openai';
+import { createLLMProvider } from './services/llm';
 import { ReportService } from './services/report';
+import { AnalysisCache } from './services/cache';
+import { DiffService } from './services/diff';
+import { IssueClusterer } from './services/clustering';
+import { NotificationService } from './services/notifications';
+import { HistoryStore } from './services/history';
+import { UsageTracker } from './services/usage';
+import { RequestScheduler } from './services/scheduler';
+import { DEFAULT_REPORT_FORMATS, ReporterRegistry } from './services/reporters';
 import { ConfigService } from './utils/config';
 import { Logger } from './utils/logger';
+import { deriveFixStatus, issueKey, issueRepository } from './utils/issues';
+import { analysisFailed, countsTowardSeverity } from './utils/severity';
+import { subtractUsage } from './utils/usage';
 import {
+  AnalyzerLogger,
   ComponentAnalysisReport,
+  ComponentSummary,
   AnalyzeOptions,
+  AnalyzerOptions,
+  BatchAnalyzeOptions,
+  DashboardEntry,
+  DashboardReport,
   OpenAIIssueAnalysisRequest,
+  GitHubClient,
+  GitHubComment,
   GitHubIssue,
   IssueAnalysis,
+  LLMProvider,
+  ProjectInfo,
+  ReportDiff,
+  Reporter,
+  SavedReportPaths,
+  SaveReportOptions,
+  ComponentUpdate,
+  IssueChangeEvent,
+  UpdateComponentOptions,
+  TokenUsage,
 } from './types';
 
 export class ShadcnIssueAnalyzer {
-  private githubService: GitHubService;
-  private openaiService: OpenAIService;
+  private githubService: GitHubClient;
+  private llmProvider: LLMProvider;
   private reportService: ReportService;
+  private diffService: DiffService;
+  private issueClusterer: IssueClusterer;
+  private reporterRegistry: ReporterRegistry;
+  private notificationService: NotificationService;
+  private historyStore: HistoryStore;
+  private usageTracker: UsageTracker;
+  // Issues analyzed by an incremental update; the rest of its report was carried over
+  private updatedIssueKeys = new WeakMap<ComponentAnalysisReport, Set<string>>();
   private configService: ConfigService;
-  private logger: Logger;
+  private cache?: AnalysisCache;
+  private logger: AnalyzerLogger;
 
-  constructor(verbose: boolean = false) {
-    this.configService = new ConfigService();
-    this.logger = new Logger(verbose);
+  /**
+   * Without `options.config` the configuration is read from the environment. Services not
+   * passed in `options` are created from the configuration. Nothing is written to disk until
+   * a report is saved, apart from the analysis cache when `useCache` is on.
+   */
+  constructor(verbose: boolean = false, options: AnalyzerOptions = {}) {
+    const { useCache = true } = options;
 
-    const config = this.configService.getConfig();
+    this.configService = new ConfigService(true, options.config);
+    this.logger = options.logger || new Logger(verbose);
 
-    this.githubService = new GitHubService(config.githubToken);
-    this.openaiService = new OpenAIService(config.openaiApiKey, config.openaiModel);
-    this.reportService = new ReportService();
+    const config = this.configService.getConfig();
 
-    this.configService.ensureOutputDirectory();
+    const scheduler = new RequestScheduler({
+      concurrency: options.concurrency ?? config.requestConcurrency,
+      maxRetries: config.requestMaxRetries,
+      logger: this.logger,
+    });
+
+    if (options.githubClient) {
+      this.githubService = options.githubClient;
+    } else {
+      if (!config.githubToken) {
+        this.logger.warning('GITHUB_TOKEN not provided. API rate limits will be lower.');
+      }
+      this.githubService = new GitHubService(config.githubToken, {
+        baseUrl: config.githubApiUrl,
+        repos: config.targetRepos,
+        scheduler,
+        logger: this.logger,
+      });
+    }
+    this.usageTracker = new UsageTracker({ prices: config.modelPrices, limits: options.limits, logger: this.logger });
+    this.llmProvider =
+      options.llmProvider ||
+      createLLMProvider(config, { scheduler, logger: this.logger, usageTracker: this.usageTracker });
+    this.reportService = options.reportService || new ReportService(this.logger);
+    this.diffService = new DiffService();
+    this.issueClusterer = new IssueClusterer();
+    this.reporterRegistry = new ReporterRegistry(this.reportService);
+    this.notificationService = new NotificationService(config.notifications || [], {
+      scheduler,
+      logger: this.logger,
+      dryRun: options.notifyDryRun,
+    });
+    this.historyStore = new HistoryStore(this.configService.getHistoryPath(), this.logger);
+
+    if (useCache) {
+      this.cache = new AnalysisCache(this.configService.getCachePath(), this.logger);
+    }
   }
 
   /**
    * Main analysis method
    */
   async analyzeComponent(options: AnalyzeOptions): Promise<ComponentAnalysisReport> {
-    const { component, maxIssues = 50, includeClosedIssues = false, verbose = false } = options;
+    const { component, verbose = false } = options;
+    const config = this.configService.getConfig();
+    const maxIssues = options.maxIssues ?? this.getDefaultMaxIssues(component);
+    const includeClosedIssues = options.includeClosedIssues ?? config.includeClosedIssues ?? false;
+    const commentTokenBudget = options.commentTokenBudget ?? config.commentTokenBudget;
+    const usageBefore = this.usageTracker.getTotals();
 
     this.logger.header(`Analyzing ${component} Component Issues`);
 
     try {
       // Step 1: Search for GitHub issues
       this.logger.progress(`Searching for issues related to "${component}"...`);
-      const issues = await this.searchComponentIssues(component, maxIssues, includeClosedIssues);
+      const found = await this.searchComponentIssues(component, maxIssues, includeClosedIssues, options.repos);
 
-      if (issues.length === 0) {
+      if (found.length === 0) {
         this.logger.warning(`No issues found for component "${component}"`);
         return this.createEmptyReport(component);
       }
 
-      this.logger.success(`Found ${issues.length} issues to analyze`);
+      this.logger.success(`Found ${found.length} issues to analyze`);
+      const issues = await this.fetchLinkedPullRequests(found);
 
-      // Step 2: Analyze issues with OpenAI
-      this.logger.progress('Analyzing issues with OpenAI...');
-      const analyses = await this.analyzeIssuesWithOpenAI(component, issues);
+      // Step 2: Analyze issues with the configured LLM provider
+      this.logger.progress(`Analyzing issues with ${this.llmProvider.name}...`);
+      const { analyses, notAnalyzed } = await this.analyzeIssuesWithLLM(component, issues, commentTokenBudget);
 
       // Step 3: Generate summary
       this.logger.progress('Generating analysis summary...');
-      const summary = await this.generateSummary(component, analyses);
+      const summary = await this.generateSummary(
+        component,
+        analyses.filter((item) => !item.possibly_unrelated)
+      );
 
       // Step 4: Create report
-      const report = this.createReport(component, issues, analyses, summary);
+      const report = this.createReport(component, analyses, summary, this.usageSince(usageBefore), notAnalyzed);
 
       // Step 5: Display console summary
       this.logger.info(this.reportService.generateConsoleSummary(report));
@@ -73,29 +159,274 @@ export class ShadcnIssueAnalyzer {
   }
 
   /**
-   * Search for component-related issues on GitHub
+   * Analyze several components in one run, sharing the issue budget between them, and
+   * save the per-component reports (unless `save` is false) for an aggregate dashboard
+   */
+  async analyzeComponents(options: BatchAnalyzeOptions): Promise<DashboardReport> {
+    const {
+      components,
+      maxIssues,
+      totalIssueBudget,
+      repos,
+      includeClosedIssues,
+      commentTokenBudget,
+      sinceLast = false,
+      formats,
+      project,
+      save = true,
+      verbose = false,
+    } = options;
+
+    const entries: DashboardEntry[] = [];
+    let remainingBudget = totalIssueBudget ?? Infinity;
+    const usageBefore = this.usageTracker.getTotals();
+
+    for (const [index, component] of components.entries()) {
+      if (remainingBudget <= 0) {
+        this.logger.warning(`Issue budget exhausted, skipping remaining ${components.length - index} components`);
+        components.slice(index).forEach((skipped) => {
+          entries.push(this.createDashboardEntry(skipped, undefined, undefined, 'Skipped: issue budget exhausted'));
+        });
+        break;
+      }
+
+      if (this.usageTracker.isExhausted()) {
+        this.logger.warning(`Run limit reached, skipping remaining ${components.length - index} components`);
+        components.slice(index).forEach((skipped) => {
+          entries.push(this.createDashboardEntry(skipped, undefined, undefined, 'Skipped: run limit reached'));
+        });
+        break;
+      }
+
+      this.logger.info(`[${index + 1}/${components.length}] ${component}`);
+
+      try {
+        const report = await this.analyzeComponent({
+          component,
+          maxIssues: Math.min(maxIssues ?? this.getDefaultMaxIssues(component), remainingBudget),
+          repos,
+          includeClosedIssues,
+          commentTokenBudget,
+          verbose,
+        });
+        remainingBudget -= report.total_issues;
+
+        if (!save) {
+          entries.push(this.createDashboardEntry(component, report));
+          continue;
+        }
+
+        // Load the previous report before today's run overwrites it
+        const previous = sinceLast ? this.loadPreviousReport(component) : undefined;
+        const paths = await this.saveReport(report, undefined, { formats });
+        if (previous) {
+          await this.saveDiff(this.compareReports(previous, report));
+        }
+        entries.push(this.createDashboardEntry(component, report, paths));
+      } catch (error) {
+        this.logger.error(`Skipping ${component}: ${error}`);
+        entries.push(this.createDashboardEntry(component, undefined, undefined, String(error)));
+      }
+    }
+
+    return this.createDashboard(entries, project, this.usageSince(usageBefore));
+  }
+
+  /**
+   * Update a component's stored report incrementally: only issues created or updated since the
+   * last run are searched for and analyzed, then merged into the report, along with stored
+   * issues whose analysis failed. A failed re-analysis keeps the stored analysis, marked as
+   * outdated so the next update retries it. Every new issue and severity change is logged.
+   * Without a stored report, a full analysis runs instead.
+   */
+  async updateComponent(options: UpdateComponentOptions): Promise<ComponentUpdate> {
+    const { component } = options;
+    const config = this.configService.getConfig();
+    const previousPath = this.configService.findLatestReportPath(component);
+    if (!previousPath) {
+      this.logger.info(`No stored report for ${component}; running a full analysis`);
+      const report = await this.analyzeComponent(options);
+      return { report, updated_issues: report.total_issues, full_analysis: true };
+    }
+
+    const previous = this.reportService.loadJsonReport(previousPath);
+    const since = options.since ?? previous.analysis_date;
+    const includeClosedIssues = options.includeClosedIssues ?? config.includeClosedIssues ?? false;
+    const commentTokenBudget = options.commentTokenBudget ?? config.commentTokenBudget;
+
+    // The report is dated from before the search, so the next update can't miss an issue
+    // updated while this one runs
+    const startedAt = new Date().toISOString();
+    const usageBefore = this.usageTracker.getTotals();
+
+    this.logger.progress(`Searching for ${component} issues updated since ${since}...`);
+    const maxIssues = options.maxIssues ?? this.getDefaultMaxIssues(component);
+    const found = await this.searchComponentIssues(component, maxIssues, true, options.repos, since);
+
+    // Closed issues are searched too so that reported issues closed since the last run are updated
+    const known = new Set(previous.issues.map((item) => issueKey(item.github_issue)));
+    const changed = found.filter(
+      (issue) => issue.state === 'open' || includeClosedIssues || known.has(issueKey(issue))
+    );
+    // Unchanged issues aren't found by the search, so the ones left unanalyzed are retried from the report
+    const changedKeys = new Set(changed.map((issue) => issueKey(issue)));
+    const retryIssues = new Map<string, GitHubIssue>();
+    previous.issues
+      .filter((item) => analysisFailed(item.analysis) || item.analysis_outdated)
+      .forEach((item) => retryIssues.set(issueKey(item.github_issue), item.github_issue));
+    (previous.not_analyzed || []).forEach((issue) => retryIssues.set(issueKey(issue), issue));
+    changedKeys.forEach((key) => retryIssues.delete(key));
+    const retries = [...retryIssues.values()];
+    if (changed.length === 0 && retries.length === 0) {
+      this.logger.info(`No new or updated ${component} issues since ${since}`);
+      return { report: previous, updated_issues: 0 };
+    }
+
+    this.logger.success(`Found ${changed.length} new or updated issues`);
+    if (retries.length > 0) {
+      this.logger.info(`Retrying ${retries.length} issues the last update could not analyze`);
+    }
+    const issues = await this.fetchLinkedPullRequests([...changed, ...retries]);
+    const { analyses, notAnalyzed } = await this.analyzeIssuesWithLLM(component, issues, commentTokenBudget);
+
+    const previousItems = new Map(previous.issues.map((item) => [issueKey(item.github_issue), item]));
+    const refreshed = analyses.map((item) => {
+      const stored = previousItems.get(issueKey(item.github_issue));
+      if (!analysisFailed(item.analysis) || !stored || analysisFailed(stored.analysis)) {
+        return item;
+      }
+      // Keep the stored analysis rather than replace it with one that has no severity
+      this.logger.warning(`Keeping the stored analysis of ${issueKey(item.github_issue)}; it will be retried`);
+      return { ...stored, github_issue: item.github_issue, analysis_outdated: true };
+    });
+
+    const analyzedKeys = new Set(analyses.map((item) => issueKey(item.github_issue)));
+    const merged = [
+      ...previous.issues.filter((item) => !analyzedKeys.has(issueKey(item.github_issue))),
+      ...refreshed,
+    ];
+    // Only the analyses made by this update are new; kept ones stay out of the history
+    const updatedKeys = new Set(
+      refreshed.filter((item) => !item.analysis_outdated).map((item) => issueKey(item.github_issue))
+    );
+
+    this.logger.progress('Generating analysis summary...');
+    const summary = await this.generateSummary(
+      component,
+      merged.filter((item) => !item.possibly_unrelated)
+    );
+    const report = {
+      ...this.createReport(component, merged, summary, this.usageSince(usageBefore), notAnalyzed),
+      analysis_date: startedAt,
+    };
+
+    this.updatedIssueKeys.set(report, updatedKeys);
+
+    const diff = this.diffService.compareReports(previous, report);
+    this.diffService.listChangeEvents(diff).forEach((event) => this.logChangeEvent(event));
+
+    return { report, updated_issues: issues.length, diff };
+  }
+
+  /**
+   * Notify the configured sinks of critical issues that weren't critical in the report saved at
+   * `previousPath`. Without a previous report every critical issue is new. Notification problems
+   * are logged and never fail the save.
+   */
+  private async notifyNewCriticalIssues(report: ComponentAnalysisReport, previousPath?: string): Promise<void> {
+    try {
+      const baseline = previousPath ? this.reportService.loadJsonReport(previousPath) : { ...report, issues: [] };
+      const newlyCritical = this.diffService.compareReports(baseline, report).newly_critical;
+      if (newlyCritical.length === 0) {
+        return;
+      }
+
+      await this.notificationService.notify({
+        event: 'new_critical_issues',
+        component_name: report.component_name,
+        analysis_date: report.analysis_date,
+        critical_issues: report.critical_issues,
+        new_critical_issues: newlyCritical,
+      });
+    } catch (error) {
+      this.logger.warning(`Failed to send notifications for ${report.component_name}: ${error}`);
+    }
+  }
+
+  /**
+   * Log one change found by an incremental update; issues becoming critical are highlighted
+   */
+  private logChangeEvent(event: IssueChangeEvent): void {
+    const key = `${event.repository}#${event.number}`;
+    const messages: Record<IssueChangeEvent['change'], string> = {
+      new: `New ${event.new_severity} issue ${key}: ${event.title}`,
+      escalation: `${key} escalated from ${event.old_severity} to ${event.new_severity}: ${event.title}`,
+      downgrade: `${key} downgraded from ${event.old_severity} to ${event.new_severity}: ${event.title}`,
+      resolved: `${key} was closed: ${event.title}`,
+    };
+
+    if (event.change !== 'resolved' && event.change !== 'downgrade' && event.new_severity === 'critical') {
+      this.logger.critical(messages[event.change]);
+    } else if (event.change === 'escalation') {
+      this.logger.warning(messages[event.change]);
+    } else {
+      this.logger.info(messages[event.change]);
+    }
+  }
+
+  /**
+   * List the change events of a diff, for a change log
+   */
+  listChangeEvents(diff: ReportDiff): IssueChangeEvent[] {
+    return this.diffService.listChangeEvents(diff);
+  }
+
+  /**
+   * Issues to analyze for a component when no limit is given: the component's override from
+   * the project config, then the configured default, then 50
+   */
+  private getDefaultMaxIssues(component: string): number {
+    const config = this.configService.getConfig();
+    return config.componentOverrides?.[component]?.max_issues ?? config.maxIssues ?? 50;
+  }
+
+  /**
+   * Search for component-related issues on GitHub, applying the component's search overrides
    */
   private async searchComponentIssues(
     component: string,
     maxIssues: number,
-    includeClosedIssues: boolean
+    includeClosedIssues: boolean,
+    repos?: string[],
+    updatedSince?: string
   ): Promise<GitHubIssue[]> {
     try {
-      // Check rate limit first
+      // An exhausted rate limit pauses GitHub requests until the reset rather than failing them
       const rateLimit = await this.githubService.getRateLimit();
       if (rateLimit) {
         this.logger.debug(`GitHub API rate limit: ${rateLimit.remaining}/${rateLimit.limit}`);
-        if (rateLimit.remaining < 10) {
-          this.logger.warning('GitHub API rate limit is low. Consider using a GitHub token.');
-        }
       }
 
+      const override = this.configService.getConfig().componentOverrides?.[component] || {};
       const issues = await this.githubService.searchComponentIssues(component, {
         maxIssues,
         includeClosedIssues,
+        repos,
+        aliases: override.aliases,
+        keywords: override.keywords,
+        excludeTerms: override.exclude_terms,
+        labels: override.labels,
+        excludeLabels: override.exclude_labels,
+        updatedSince,
       });
 
-      this.logger.debug(`Retrieved ${issues.length} issues from GitHub`);
+      const repoCounts = new Map<string, number>();
+      issues.forEach((issue) => {
+        const repository = issueRepository(issue);
+        repoCounts.set(repository, (repoCounts.get(repository) || 0) + 1);
+      });
+      const breakdown = [...repoCounts.entries()].map(([repo, count]) => `${repo}: ${count}`).join(', ');
+      this.logger.debug(`Retrieved ${issues.length} issues from GitHub (${breakdown})`);
       return issues;
     } catch (error) {
       this.logger.error(`Failed to search GitHub issues: ${error}`);
@@ -104,57 +435,175 @@ export class ShadcnIssueAnalyzer {
   }
 
   /**
-   * Analyze issues using OpenAI
+   * Analyze issues using the configured LLM provider. Once the run's usage limit is reached, the
+   * issues that got no analysis are returned as `notAnalyzed` instead of as failed analyses.
    */
-  private async analyzeIssuesWithOpenAI(
+  private async analyzeIssuesWithLLM(
     component: string,
-    issues: GitHubIssue[]
-  ): Promise<Array<{ github_issue: GitHubIssue; analysis: IssueAnalysis }>> {
-    const requests: OpenAIIssueAnalysisRequest[] = issues.map((issue) => ({
+    issues: GitHubIssue[],
+    commentTokenBudget: number
+  ): Promise<{ analyses: ComponentAnalysisReport['issues']; notAnalyzed: GitHubIssue[] }> {
+    const model = this.llmProvider.modelName;
+    const promptHash = this.llmProvider.getPromptTemplate(component).hash;
+
+    // Reuse cached analyses for issues that haven't changed since they were analyzed
+    const cached = new Map<string, IssueAnalysis>();
+    if (this.cache) {
+      issues.forEach((issue) => {
+        const analysis = this.cache!.get(component, issue, model, promptHash);
+        if (analysis) {
+          cached.set(issueKey(issue), analysis);
+        }
+      });
+    }
+
+    const pending = issues.filter((issue) => !cached.has(issueKey(issue)));
+    if (this.cache) {
+      this.logger.info(`Cache: ${cached.size} reused, ${pending.length} new or updated`);
+    }
+
+    const comments = await this.fetchIssueComments(pending, commentTokenBudget);
+
+    const requests: OpenAIIssueAnalysisRequest[] = pending.map((issue) => ({
       component_name: component,
       issue_title: issue.title,
       issue_body: issue.body || '',
       issue_labels: issue.labels.map((label) => label.name),
       issue_url: issue.html_url,
+      issue_repository: issueRepository(issue),
+      issue_author: issue.user.login,
+      issue_comments: comments.get(issueKey(issue)),
+      total_comments: issue.comments,
     }));
 
-    this.logger.progress(`Analyzing ${requests.length} issues...`);
-    const analyses = await this.openaiService.analyzeIssuesBatch(requests);
+    const fresh = new Map<string, IssueAnalysis>();
+    if (requests.length > 0) {
+      this.logger.progress(`Analyzing ${requests.length} issues...`);
+      const analyses = await this.llmProvider.analyzeIssuesBatch(requests);
+
+      pending.forEach((issue, index) => {
+        const analysis = analyses[index];
+        fresh.set(issueKey(issue), analysis);
+
+        // Failed analyses are retried on the next run rather than cached
+        if (this.cache && !analysisFailed(analysis)) {
+          this.cache.set(component, issue, model, promptHash, analysis);
+        }
+      });
+
+      this.cache?.save();
+    }
+
+    // Requests not sent because of the limit, or cut short by it, say nothing about the issue
+    const notAnalyzed = this.usageTracker.isExhausted()
+      ? pending.filter((issue) => analysisFailed(fresh.get(issueKey(issue))!))
+      : [];
+    if (notAnalyzed.length > 0) {
+      this.logger.warning(`${notAnalyzed.length} issues were not analyzed because the run limit was reached`);
+    }
+    const notAnalyzedKeys = new Set(notAnalyzed.map((issue) => issueKey(issue)));
 
     // Combine GitHub issues with their analyses
-    const results = issues.map((issue, index) => ({
-      github_issue: issue,
-      analysis: analyses[index],
-    }));
+    const results = this.assessRelevance(
+      component,
+      issues.filter((issue) => !notAnalyzedKeys.has(issueKey(issue))).map((issue) => ({
+        github_issue: issue,
+        analysis: (cached.get(issueKey(issue)) || fresh.get(issueKey(issue)))!,
+      }))
+    );
 
     // Log analysis results
-    const criticalCount = results.filter(
+    const counted = results.filter(countsTowardSeverity);
+    const criticalCount = counted.filter(
       (r) => r.analysis.is_critical || r.analysis.severity_level === 'critical'
     ).length;
-    const highCount = results.filter((r) => r.analysis.severity_level === 'high').length;
+    const highCount = counted.filter((r) => r.analysis.severity_level === 'high').length;
 
     this.logger.success(`Analysis complete: ${criticalCount} critical, ${highCount} high priority`);
 
+    const failedCount = results.filter((r) => analysisFailed(r.analysis)).length;
+    if (failedCount > 0) {
+      this.logger.warning(`${failedCount} issues could not be analyzed and are marked for manual review`);
+    }
+
     if (criticalCount > 0) {
       this.logger.critical(`Found ${criticalCount} critical issues that may prevent basic component usage!`);
     }
 
-    return results;
+    return { analyses: results, notAnalyzed };
+  }
+
+  /**
+   * Fetch comment threads for issues that have comments. Failures are logged and the
+   * issue is analyzed from its body alone.
+   */
+  private async fetchIssueComments(
+    issues: GitHubIssue[],
+    commentTokenBudget: number
+  ): Promise<Map<string, GitHubComment[]>> {
+    const comments = new Map<string, GitHubComment[]>();
+    if (commentTokenBudget <= 0) {
+      return comments;
+    }
+
+    const withComments = issues.filter((issue) => issue.comments > 0);
+    if (withComments.length === 0) {
+      return comments;
+    }
+
+    this.logger.progress(`Fetching comments for ${withComments.length} issues...`);
+    await Promise.all(
+      withComments.map(async (issue) => {
+        try {
+          const thread = await this.githubService.getIssueComments(
+            issueRepository(issue),
+            issue.number,
+            commentTokenBudget
+          );
+          comments.set(issueKey(issue), thread);
+        } catch (error) {
+          this.logger.warning(`Analyzing ${issueKey(issue)} without comments: ${error}`);
+        }
+      })
+    );
+
+    return comments;
+  }
+
+  /**
+   * Attach the linked pull requests and fix status to each issue. They are fetched for cached
+   * analyses too, since pull requests change state without the issue being updated. Failures
+   * are logged and leave the issue without a fix status.
+   */
+  private async fetchLinkedPullRequests(issues: GitHubIssue[]): Promise<GitHubIssue[]> {
+    const client = this.githubService;
+    if (!this.configService.getConfig().linkedPullRequests || !client.getLinkedPullRequests) {
+      return issues;
+    }
+
+    this.logger.progress(`Fetching linked pull requests for ${issues.length} issues...`);
+    return Promise.all(
+      issues.map(async (issue) => {
+        try {
+          const pullRequests = await client.getLinkedPullRequests!(issueRepository(issue), issue.number);
+          return { ...issue, linked_pull_requests: pullRequests, fix_status: deriveFixStatus(pullRequests) };
+        } catch (error) {
+          this.logger.warning(`No fix status for ${issueKey(issue)}: ${error}`);
+          return issue;
+        }
+      })
+    );
   }
 
   /**
-   * Generate analysis summary using OpenAI
+   * Generate analysis summary using the configured LLM provider
    */
   private async generateSummary(
     component: string,
     analyses: Array<{ github_issue: GitHubIssue; analysis: IssueAnalysis }>
-  ): Promise<{
-    most_critical_issues: string[];
-    common_problems: string[];
-    recommended_actions: string[];
-  }> {
+  ): Promise<ComponentSummary> {
     try {
-      return await this.openaiService.generateComponentSummary(component, analyses);
+      return await this.llmProvider.generateComponentSummary(component, analyses);
     } catch (error) {
       this.logger.warning(`Failed to generate summary: ${error}`);
       return {
@@ -170,32 +619,76 @@ export class ShadcnIssueAnalyzer {
    */
   private createReport(
     component: string,
-    issues: GitHubIssue[],
-    analyses: Array<{ github_issue: GitHubIssue; analysis: IssueAnalysis }>,
-    summary: {
-      most_critical_issues: string[];
-      common_problems: string[];
-      recommended_actions: string[];
-    }
+    analyses: ComponentAnalysisReport['issues'],
+    summary: ComponentSummary,
+    usage?: TokenUsage,
+    notAnalyzed: GitHubIssue[] = []
   ): ComponentAnalysisReport {
-    const criticalIssues = analyses.filter(
+    const counted = analyses.filter(countsTowardSeverity);
+    const criticalIssues = counted.filter(
       (a) => a.analysis.is_critical || a.analysis.severity_level === 'critical'
     ).length;
-    const highPriorityIssues = analyses.filter(
+    const highPriorityIssues = counted.filter(
       (a) => a.analysis.severity_level === 'high' && !a.analysis.is_critical
     ).length;
+    const failedAnalyses = analyses.filter((a) => analysisFailed(a.analysis)).length;
+    const possiblyUnrelated = analyses.filter((a) => a.possibly_unrelated).length;
+    const template = this.llmProvider.getPromptTemplate(component);
+
+    const clusters = this.issueClusterer.cluster(component, analyses);
+    const clusterIds = new Map(
+      clusters.flatMap((cluster) => cluster.issues.map((key) => [key, cluster.cluster_id] as const))
+    );
+    if (clusters.length > 0) {
+      const grouped = clusters.reduce((sum, cluster) => sum + cluster.issues.length, 0);
+      this.logger.info(`Grouped ${grouped} issues into ${clusters.length} problem clusters`);
+    }
 
     return {
       component_name: component,
       analysis_date: new Date().toISOString(),
-      total_issues: issues.length,
+      total_issues: analyses.length,
       critical_issues: criticalIssues,
       high_priority_issues: highPriorityIssues,
-      issues: analyses,
+      failed_analyses: failedAnalyses,
+      possibly_unrelated: possiblyUnrelated,
+      relevance_threshold: this.configService.getConfig().relevanceThreshold,
+      prompt_template: template.name,
+      prompt_hash: template.hash,
+      model: this.llmProvider.modelName,
+      usage,
+      issues: analyses.map((item) => ({ ...item, cluster_id: clusterIds.get(issueKey(item.github_issue)) })),
+      clusters,
+      ...(notAnalyzed.length > 0 && { not_analyzed: notAnalyzed }),
       summary,
     };
   }
 
+  /**
+   * Flag issues whose relevance score is below the threshold as possibly unrelated: the search
+   * matched a mention of the component, but the issue is about something else
+   */
+  private assessRelevance(
+    component: string,
+    analyses: Array<{ github_issue: GitHubIssue; analysis: IssueAnalysis }>
+  ): ComponentAnalysisReport['issues'] {
+    const threshold = this.configService.getConfig().relevanceThreshold;
+    const assessed = analyses.map((item) => ({
+      ...item,
+      possibly_unrelated:
+        !analysisFailed(item.analysis) &&
+        item.analysis.relevance_score !== undefined &&
+        item.analysis.relevance_score < threshold,
+    }));
+
+    const unrelated = assessed.filter((item) => item.possibly_unrelated).length;
+    if (unrelated > 0) {
+      this.logger.info(`${unrelated} issues look unrelated to ${component} and are not counted in any severity`);
+    }
+
+    return assessed;
+  }
+
   /**
    * Create an empty report when no issues are found
    */
@@ -216,25 +709,191 @@ export class ShadcnIssueAnalyzer {
   }
 
   /**
-   * Save analysis report to files
+   * Create a dashboard entry for a single component
+   */
+  private createDashboardEntry(
+    component: string,
+    report?: ComponentAnalysisReport,
+    paths?: SavedReportPaths,
+    error?: string
+  ): DashboardEntry {
+    return {
+      component_name: component,
+      total_issues: report?.total_issues ?? 0,
+      critical_issues: report?.critical_issues ?? 0,
+      high_priority_issues: report?.high_priority_issues ?? 0,
+      report_paths: paths,
+      error,
+    };
+  }
+
+  /**
+   * Create the dashboard report, ranking components by critical then high priority counts
+   */
+  private createDashboard(entries: DashboardEntry[], project?: ProjectInfo, usage?: TokenUsage): DashboardReport {
+    const ranked = [...entries].sort(
+      (a, b) =>
+        b.critical_issues - a.critical_issues ||
+        b.high_priority_issues - a.high_priority_issues ||
+        b.total_issues - a.total_issues
+    );
+
+    return {
+      analysis_date: new Date().toISOString(),
+      project,
+      total_components: entries.length,
+      total_issues: entries.reduce((sum, entry) => sum + entry.total_issues, 0),
+      critical_issues: entries.reduce((sum, entry) => sum + entry.critical_issues, 0),
+      high_priority_issues: entries.reduce((sum, entry) => sum + entry.high_priority_issues, 0),
+      usage,
+      components: ranked,
+    };
+  }
+
+  /**
+   * Tokens spent by this analyzer so far, with their estimated cost
+   */
+  getUsage(): TokenUsage {
+    return this.usageTracker.getTotals();
+  }
+
+  /**
+   * Whether the run's budget or token limit has been reached, so no more LLM requests are sent
    */
-  async saveReport(report: ComponentAnalysisReport, outputFile?: string): Promise<void> {
+  isUsageLimitReached(): boolean {
+    return this.usageTracker.isExhausted();
+  }
+
+  /**
+   * Usage since an earlier total, or undefined when no LLM request was made
+   */
+  private usageSince(before: TokenUsage): TokenUsage | undefined {
+    const usage = subtractUsage(this.usageTracker.getTotals(), before);
+    return usage.requests > 0 ? usage : undefined;
+  }
+
+  /**
+   * Save the dashboard report to files
+   */
+  async saveDashboard(dashboard: DashboardReport, outputFile?: string): Promise<SavedReportPaths> {
     try {
-      const markdownPath = outputFile || this.configService.getOutputPath(report.component_name, 'md');
-      const jsonPath = this.configService.getOutputPath(report.component_name, 'json');
+      const markdownPath = outputFile || this.configService.getDashboardPath('md', dashboard.project?.name);
+      const jsonPath = this.configService.getDashboardPath('json', dashboard.project?.name);
 
-      await this.reportService.saveReport(report, markdownPath);
-      await this.reportService.saveJsonReport(report, jsonPath);
+      await this.reportService.saveDashboardReport(dashboard, markdownPath);
+      await this.reportService.saveDashboardJsonReport(dashboard, jsonPath);
 
-      this.logger.success(`Reports saved:`);
+      this.logger.success(`Dashboard saved:`);
       this.logger.info(`  Markdown: ${markdownPath}`);
       this.logger.info(`  JSON: ${jsonPath}`);
+
+      return { md: markdownPath, json: jsonPath };
+    } catch (error) {
+      this.logger.error(`Failed to save dashboard: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Register a custom report format for `saveReport`
+   */
+  registerReporter(reporter: Reporter): void {
+    this.reporterRegistry.register(reporter);
+  }
+
+  /**
+   * Save analysis report to files, one per format, append its analyses to the history (for an
+   * incremental update, only the re-analyzed issues) and notify the sinks of issues that became
+   * critical since the previously saved report. `outputFile` overrides the markdown path.
+   */
+  async saveReport(
+    report: ComponentAnalysisReport,
+    outputFile?: string,
+    options: SaveReportOptions = {}
+  ): Promise<SavedReportPaths> {
+    const { formats = this.configService.getConfig().formats ?? DEFAULT_REPORT_FORMATS } = options;
+
+    try {
+      const paths: SavedReportPaths = {};
+      // Find the baseline before this report becomes the latest one
+      const previousPath = this.notificationService.hasSinks()
+        ? this.configService.findLatestReportPath(report.component_name)
+        : undefined;
+
+      for (const format of formats) {
+        const reporter = this.reporterRegistry.get(format);
+        const outputPath =
+          format === 'md' && outputFile
+            ? outputFile
+            : this.configService.getOutputPath(report.component_name, reporter.extension, report.analysis_date);
+
+        await this.reportService.saveFormattedReport(report, reporter, outputPath);
+        paths[format] = outputPath;
+      }
+      this.historyStore.record(report, this.updatedIssueKeys.get(report));
+
+      this.logger.success(`Reports saved:`);
+      Object.entries(paths).forEach(([format, outputPath]) => {
+        this.logger.info(`  ${this.reporterRegistry.get(format).description}: ${outputPath}`);
+      });
+
+      if (this.notificationService.hasSinks()) {
+        await this.notifyNewCriticalIssues(report, previousPath);
+      }
+
+      return paths;
     } catch (error) {
       this.logger.error(`Failed to save report: ${error}`);
       throw error;
     }
   }
 
+  /**
+   * Load the most recent saved JSON report for a component, if there is one
+   */
+  loadPreviousReport(component: string): ComponentAnalysisReport | undefined {
+    const previousPath = this.configService.findLatestReportPath(component);
+    if (!previousPath) {
+      this.logger.warning(`No previous report found for ${component}; skipping comparison`);
+      return undefined;
+    }
+
+    this.logger.debug(`Comparing against ${previousPath}`);
+    return this.reportService.loadJsonReport(previousPath);
+  }
+
+  /**
+   * Compare two reports of the same component
+   */
+  compareReports(oldReport: ComponentAnalysisReport, newReport: ComponentAnalysisReport): ReportDiff {
+    const diff = this.diffService.compareReports(oldReport, newReport);
+    this.logger.info(this.reportService.generateDiffConsoleSummary(diff));
+    return diff;
+  }
+
+  /**
+   * Save a report diff to files
+   */
+  async saveDiff(diff: ReportDiff, outputFile?: string): Promise<SavedReportPaths> {
+    try {
+      const markdownPath =
+        outputFile || this.configService.getDiffPath(diff.component_name, 'md', diff.new_analysis_date);
+      const jsonPath = this.configService.getDiffPath(diff.component_name, 'json', diff.new_analysis_date);
+
+      await this.reportService.saveDiffReport(diff, markdownPath);
+      await this.reportService.saveDiffJsonReport(diff, jsonPath);
+
+      this.logger.success(`Diff reports saved:`);
+      this.logger.info(`  Markdown: ${markdownPath}`);
+      this.logger.info(`  JSON: ${jsonPath}`);
+
+      return { md: markdownPath, json: jsonPath };
+    } catch (error) {
+      this.logger.error(`Failed to save diff: ${error}`);
+      throw error;
+    }
+  }
+
   /**
    * Get analysis statistics
    */
@@ -1,54 +1,215 @@
 #!/usr/bin/env node
 
+import * as dotenv from 'dotenv';
 import { Command } from 'commander';
 import { ShadcnIssueAnalyzer } from './analyzer';
 import { Logger } from './utils/logger';
+import { SHADCN_COMPONENTS } from './utils/components';
+import { ConfigService, loadConfigFromEnv } from './utils/config';
+import { parseRepository } from './utils/issues';
+import { AnalysisCache } from './services/cache';
+import { DiffService } from './services/diff';
+import { ReportService } from './services/report';
+import { DEFAULT_REPORT_FORMATS, ReporterRegistry } from './services/reporters';
+import { ProjectScanner } from './services/project-scanner';
+import { CHECK_EXIT_CODES, DEFAULT_POLICY_FILE, PolicyService } from './services/policy';
+import { PROJECT_CONFIG_FILES, ProjectConfigService } from './services/project-config';
+import { DashboardServer, DEFAULT_SERVE_HOST, DEFAULT_SERVE_PORT } from './services/dashboard-server';
+import { HistoryStore } from './services/history';
+import { Severity, SEVERITY_ORDER } from './utils/severity';
+import { formatUsage } from './utils/usage';
+import { AnalyzerLogger, ComponentAnalysisReport, Config, ProjectInfo, UsageLimits } from './types';
+import * as fs from 'fs';
 import * as packageJson from '../package.json';
 
+// The CLI reads its configuration from the environment and `.env`; the library API never does
+dotenv.config();
+
 const program = new Command();
+const FORMAT_LIST = new ReporterRegistry().getFormats().join(', ');
+const IN_FLIGHT_NOTE = ' (requests in flight, up to --concurrency, still finish and can exceed it)';
 const logger = new Logger();
+// Exit code of unexpected errors; `check` uses its tool error code, since 1 means a policy violation
+let crashExitCode = 1;
 
 program
   .name('shadcn-analyzer')
   .description('Analyze shadcn/ui component issues and identify critical ones')
-  .version(packageJson.version);
+  .version(packageJson.version)
+  .option('--config <file>', `Project config file (defaults to ${PROJECT_CONFIG_FILES.join(' or ')} if present)`);
+
+/**
+ * Build the CLI configuration: environment variables, overridden by the project config file
+ */
+function loadCliConfig(): Config {
+  const projectConfigService = new ProjectConfigService();
+  const configPath = program.opts().config || projectConfigService.findConfigFile();
+  const config = loadConfigFromEnv();
+  if (!configPath) {
+    return config;
+  }
+
+  logger.debug(`Using config ${configPath}`);
+  return projectConfigService.applyConfigFile(config, projectConfigService.loadConfigFile(configPath));
+}
+
+/**
+ * Create an analyzer from the CLI configuration and the command's options
+ */
+function createAnalyzer(options: any, analyzerLogger?: AnalyzerLogger): ShadcnIssueAnalyzer {
+  return new ShadcnIssueAnalyzer(options.verbose, {
+    config: loadCliConfig(),
+    logger: analyzerLogger,
+    useCache: options.cache,
+    concurrency: options.concurrency !== undefined ? parseInt(options.concurrency) : undefined,
+    notifyDryRun: options.notifyDryRun,
+    limits: parseUsageLimits(options),
+  });
+}
+
+/**
+ * Parse the `--budget` and `--max-tokens` options
+ */
+function parseUsageLimits(options: any): UsageLimits {
+  const budgetUsd = options.budget !== undefined ? parseFloat(options.budget) : undefined;
+  if (budgetUsd !== undefined && (isNaN(budgetUsd) || budgetUsd <= 0)) {
+    throw new Error(`Invalid budget "${options.budget}": expected a positive amount of US dollars`);
+  }
+
+  const maxTokens = options.maxTokens !== undefined ? parseInt(options.maxTokens) : undefined;
+  if (maxTokens !== undefined && (isNaN(maxTokens) || maxTokens <= 0)) {
+    throw new Error(`Invalid token limit "${options.maxTokens}": expected a positive number`);
+  }
+
+  return { budgetUsd, maxTokens };
+}
+
+/**
+ * Parse the comma-separated `--repos` option
+ */
+function parseRepos(repos?: string): string[] | undefined {
+  if (!repos) {
+    return undefined;
+  }
+  return repos.split(',').map((repo) => {
+    parseRepository(repo);
+    return repo.trim();
+  });
+}
+
+/**
+ * Analyze several components and write the aggregate dashboard
+ */
+async function runBatchAnalysis(components: string[], options: any, project?: ProjectInfo): Promise<void> {
+  const analyzer = createAnalyzer(options);
+
+  logger.info(`Starting batch analysis for ${components.length} components...`);
+  logger.separator();
+
+  const dashboard = await analyzer.analyzeComponents({
+    components,
+    maxIssues: options.maxIssues !== undefined ? parseInt(options.maxIssues) : undefined,
+    totalIssueBudget: options.totalIssues ? parseInt(options.totalIssues) : undefined,
+    repos: parseRepos(options.repos),
+    includeClosedIssues: options.includeClosed,
+    commentTokenBudget: options.commentBudget !== undefined ? parseInt(options.commentBudget) : undefined,
+    sinceLast: options.sinceLast,
+    formats: options.format ? new ReporterRegistry().parseFormats(options.format) : undefined,
+    project,
+    verbose: options.verbose,
+  });
+
+  await analyzer.saveDashboard(dashboard, options.output);
+
+  logger.separator();
+  logger.header('📊 Final Statistics');
+  logger.info(`Components Analyzed: ${dashboard.total_components}`);
+  logger.info(`Critical Issues: ${dashboard.critical_issues}/${dashboard.total_issues}`);
+  logger.info(`High Priority Issues: ${dashboard.high_priority_issues}/${dashboard.total_issues}`);
+  logger.info(`Token Usage: ${formatUsage(analyzer.getUsage())}`);
+
+  const failed = dashboard.components.filter((entry) => entry.error);
+  if (failed.length > 0) {
+    logger.warning(`${failed.length} components could not be analyzed: ${failed.map((e) => e.component_name).join(', ')}`);
+  }
+
+  if (dashboard.critical_issues > 0) {
+    const affected = dashboard.components.filter((entry) => entry.critical_issues > 0);
+    logger.critical(
+      `⚠️  ${dashboard.critical_issues} critical issues found across ${affected.length} components! Review the dashboard for details.`
+    );
+  } else {
+    logger.success(`✅ No critical issues found across ${dashboard.total_components} components!`);
+  }
+}
 
 program
   .command('analyze')
-  .description('Analyze issues for a specific shadcn component')
-  .argument('<component>', 'Name of the component to analyze (e.g., "button", "dialog", "select")')
-  .option('-m, --max-issues <number>', 'Maximum number of issues to analyze', '50')
-  .option('-c, --include-closed', 'Include closed issues in analysis', false)
-  .option('-o, --output <file>', 'Output file path for the markdown report')
+  .description('Analyze issues for one or more shadcn components')
+  .argument('<components...>', 'Name(s) of the component(s) to analyze (e.g., "button", "dialog", "select")')
+  .option('-m, --max-issues <number>', 'Maximum number of issues to analyze per component (default: 50)')
+  .option('-t, --total-issues <number>', 'Total issue budget shared across all components')
+  .option('-r, --repos <repos>', 'Comma-separated owner/name repositories to search (defaults to GITHUB_REPOS)')
+  .option('-c, --include-closed', 'Include closed issues in analysis')
+  .option('-o, --output <file>', 'Output file path for the markdown report (the dashboard when analyzing several)')
+  .option('-f, --format <formats>', `Comma-separated report formats (${FORMAT_LIST}; default: md,json)`)
+  .option('--since-last', 'Compare against the most recent saved report and write a diff', false)
+  .option('--comment-budget <tokens>', 'Approximate token budget for comments per issue (0 to skip comments)')
+  .option('--no-cache', 'Re-analyze every issue instead of reusing cached analyses')
+  .option('--concurrency <number>', 'Maximum GitHub/LLM requests in flight at once (defaults to REQUEST_CONCURRENCY)')
+  .option(
+    '--budget <usd>',
+    `Stop sending LLM requests once their estimated cost reaches this many US dollars${IN_FLIGHT_NOTE}`
+  )
+  .option('--max-tokens <number>', `Stop sending LLM requests once they have used this many tokens${IN_FLIGHT_NOTE}`)
+  .option('--notify-dry-run', 'Print notification payloads for new critical issues instead of sending them', false)
   .option('-v, --verbose', 'Enable verbose logging', false)
-  .action(async (component: string, options) => {
+  .action(async (components: string[], options) => {
     try {
       logger.header(`🔍 Shadcn Component Issue Analyzer v${packageJson.version}`);
 
-      const analyzer = new ShadcnIssueAnalyzer(options.verbose);
+      const names = components.map((name) => name.trim().toLowerCase()).filter((name) => name.length > 0);
+
+      // Validate component names
+      if (names.length === 0) {
+        logger.error('Component name is required');
+        process.exit(1);
+      }
+
+      if (names.length > 1) {
+        await runBatchAnalysis(names, options);
+        return;
+      }
+
+      const [component] = names;
+      const formats = options.format ? new ReporterRegistry().parseFormats(options.format) : undefined;
+      const analyzer = createAnalyzer(options);
 
       const analyzeOptions = {
-        component: component.toLowerCase(),
-        maxIssues: parseInt(options.maxIssues),
+        component,
+        maxIssues: options.maxIssues !== undefined ? parseInt(options.maxIssues) : undefined,
+        repos: parseRepos(options.repos),
         includeClosedIssues: options.includeClosed,
+        commentTokenBudget: options.commentBudget !== undefined ? parseInt(options.commentBudget) : undefined,
         outputFile: options.output,
         verbose: options.verbose,
       };
 
-      // Validate component name
-      if (!component || component.trim().length === 0) {
-        logger.error('Component name is required');
-        process.exit(1);
-      }
-
       logger.info(`Starting analysis for "${component}" component...`);
       logger.separator();
 
       // Run the analysis
       const report = await analyzer.analyzeComponent(analyzeOptions);
 
+      // Load the previous report before today's run overwrites it
+      const previous = options.sinceLast ? analyzer.loadPreviousReport(component) : undefined;
+
       // Save the report
-      await analyzer.saveReport(report, options.output);
+      await analyzer.saveReport(report, options.output, { formats });
+
+      if (previous) {
+        await analyzer.saveDiff(analyzer.compareReports(previous, report));
+      }
 
       // Display final statistics
       const stats = analyzer.getAnalysisStats(report);
@@ -59,6 +220,7 @@ program
         `High Priority Issues: ${report.high_priority_issues}/${report.total_issues} (${stats.highPriorityPercentage}%)`
       );
       logger.info(`Average Confidence: ${stats.avgConfidence}%`);
+      logger.info(`Token Usage: ${formatUsage(analyzer.getUsage())}`);
 
       if (report.critical_issues > 0) {
         logger.critical(`⚠️  ${report.critical_issues} critical issues found! Review the report for details.`);
@@ -71,63 +233,291 @@ program
     }
   });
 
+program
+  .command('analyze-all')
+  .description('Analyze many components and write a cross-component dashboard report')
+  .argument('[components...]', 'Components to analyze (defaults to all common shadcn/ui components)')
+  .option('-m, --max-issues <number>', 'Maximum number of issues to analyze per component (default: 50)')
+  .option('-t, --total-issues <number>', 'Total issue budget shared across all components')
+  .option('-r, --repos <repos>', 'Comma-separated owner/name repositories to search (defaults to GITHUB_REPOS)')
+  .option('-c, --include-closed', 'Include closed issues in analysis')
+  .option('-o, --output <file>', 'Output file path for the markdown dashboard')
+  .option('-f, --format <formats>', `Comma-separated report formats (${FORMAT_LIST}; default: md,json)`)
+  .option('--since-last', 'Compare against the most recent saved report and write a diff', false)
+  .option('--comment-budget <tokens>', 'Approximate token budget for comments per issue (0 to skip comments)')
+  .option('--no-cache', 'Re-analyze every issue instead of reusing cached analyses')
+  .option('--concurrency <number>', 'Maximum GitHub/LLM requests in flight at once (defaults to REQUEST_CONCURRENCY)')
+  .option(
+    '--budget <usd>',
+    `Stop sending LLM requests once their estimated cost reaches this many US dollars${IN_FLIGHT_NOTE}`
+  )
+  .option('--max-tokens <number>', `Stop sending LLM requests once they have used this many tokens${IN_FLIGHT_NOTE}`)
+  .option('--notify-dry-run', 'Print notification payloads for new critical issues instead of sending them', false)
+  .option('-v, --verbose', 'Enable verbose logging', false)
+  .action(async (components: string[], options) => {
+    try {
+      logger.header(`🔍 Shadcn Component Issue Analyzer v${packageJson.version}`);
+
+      const names = components.length > 0 ? components.map((name) => name.trim().toLowerCase()) : SHADCN_COMPONENTS;
+      await runBatchAnalysis(names, options);
+    } catch (error) {
+      logger.error(`Analysis failed: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('watch')
+  .description('Poll GitHub and merge new and updated issues into the stored reports')
+  .argument('<components...>', 'Component(s) to watch')
+  .option('-i, --interval <minutes>', 'Minutes between polls (default: 60)')
+  .option('-m, --max-issues <number>', 'Maximum new or updated issues to analyze per component and poll (default: 50)')
+  .option('-r, --repos <repos>', 'Comma-separated owner/name repositories to search (defaults to GITHUB_REPOS)')
+  .option('-c, --include-closed', 'Also add issues that were closed before they were first reported')
+  .option('-f, --format <formats>', `Comma-separated report formats (${FORMAT_LIST}; json is always written)`)
+  .option('--comment-budget <tokens>', 'Approximate token budget for comments per issue (0 to skip comments)')
+  .option('--once', 'Run one update and exit, e.g. from cron', false)
+  .option('--no-cache', 'Re-analyze every issue instead of reusing cached analyses')
+  .option('--concurrency <number>', 'Maximum GitHub/LLM requests in flight at once (defaults to REQUEST_CONCURRENCY)')
+  .option(
+    '--budget <usd>',
+    `Stop sending LLM requests once their estimated cost reaches this many US dollars${IN_FLIGHT_NOTE}`
+  )
+  .option('--max-tokens <number>', `Stop sending LLM requests once they have used this many tokens${IN_FLIGHT_NOTE}`)
+  .option('--notify-dry-run', 'Print notification payloads for new critical issues instead of sending them', false)
+  .option('-v, --verbose', 'Enable verbose logging', false)
+  .action(async (components: string[], options) => {
+    try {
+      const names = components.map((name) => name.trim().toLowerCase()).filter((name) => name.length > 0);
+      const interval = options.interval !== undefined ? parseFloat(options.interval) : 60;
+      if (isNaN(interval) || interval <= 0) {
+        throw new Error(`Invalid interval "${options.interval}"`);
+      }
+
+      const config = loadCliConfig();
+      const configService = new ConfigService(false, config);
+      const reportService = new ReportService();
+      const analyzer = createAnalyzer(options);
+
+      // The next poll searches from the stored JSON report, so it is written whatever the formats
+      const requested = options.format
+        ? new ReporterRegistry().parseFormats(options.format)
+        : config.formats ?? DEFAULT_REPORT_FORMATS;
+      const formats = [...new Set([...requested, 'json'])];
+
+      const poll = async () => {
+        for (const component of names) {
+          try {
+            const update = await analyzer.updateComponent({
+              component,
+              maxIssues: options.maxIssues !== undefined ? parseInt(options.maxIssues) : undefined,
+              repos: parseRepos(options.repos),
+              includeClosedIssues: options.includeClosed,
+              commentTokenBudget: options.commentBudget !== undefined ? parseInt(options.commentBudget) : undefined,
+              verbose: options.verbose,
+            });
+            // A first analysis is saved even without issues, as the baseline the next poll searches from
+            if (update.updated_issues === 0 && !update.full_analysis) {
+              continue;
+            }
+
+            await analyzer.saveReport(update.report, undefined, { formats });
+            if (update.diff) {
+              const changeLogPath = configService.getChangeLogPath(component);
+              reportService.appendChangeLog(analyzer.listChangeEvents(update.diff), changeLogPath);
+            }
+          } catch (error) {
+            logger.error(`Failed to update ${component}: ${error}`);
+          }
+
+          if (analyzer.isUsageLimitReached()) {
+            return;
+          }
+        }
+      };
+
+      logger.header(`👀 Watching ${names.join(', ')}`);
+      await poll();
+      if (options.once) {
+        logger.info(`Token usage: ${formatUsage(analyzer.getUsage())}`);
+        return;
+      }
+
+      // The budget and token limit cover the whole watch, not each poll
+      const schedule = () => {
+        logger.info(`Token usage so far: ${formatUsage(analyzer.getUsage())}`);
+        if (analyzer.isUsageLimitReached()) {
+          logger.warning('Run limit reached; stopping the watch');
+          return;
+        }
+
+        logger.info(`Next poll in ${interval} minutes (Ctrl+C to stop)`);
+        setTimeout(async () => {
+          await poll();
+          schedule();
+        }, interval * 60 * 1000);
+      };
+      schedule();
+    } catch (error) {
+      logger.error(`Watch failed: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('scan')
+  .description("Analyze the shadcn/ui components installed in a project and write a risk report for it")
+  .argument('<project-dir>', 'Directory of the app containing components.json')
+  .option('-m, --max-issues <number>', 'Maximum number of issues to analyze per component (default: 50)')
+  .option('-t, --total-issues <number>', 'Total issue budget shared across all components')
+  .option('-r, --repos <repos>', 'Comma-separated owner/name repositories to search (defaults to GITHUB_REPOS)')
+  .option('-c, --include-closed', 'Include closed issues in analysis')
+  .option('-o, --output <file>', 'Output file path for the markdown risk report')
+  .option('-f, --format <formats>', `Comma-separated report formats (${FORMAT_LIST}; default: md,json)`)
+  .option('--since-last', 'Compare against the most recent saved report and write a diff', false)
+  .option('--comment-budget <tokens>', 'Approximate token budget for comments per issue (0 to skip comments)')
+  .option('--no-cache', 'Re-analyze every issue instead of reusing cached analyses')
+  .option('--concurrency <number>', 'Maximum GitHub/LLM requests in flight at once (defaults to REQUEST_CONCURRENCY)')
+  .option(
+    '--budget <usd>',
+    `Stop sending LLM requests once their estimated cost reaches this many US dollars${IN_FLIGHT_NOTE}`
+  )
+  .option('--max-tokens <number>', `Stop sending LLM requests once they have used this many tokens${IN_FLIGHT_NOTE}`)
+  .option('--notify-dry-run', 'Print notification payloads for new critical issues instead of sending them', false)
+  .option('-v, --verbose', 'Enable verbose logging', false)
+  .action(async (projectDir: string, options) => {
+    try {
+      logger.header(`🔍 Shadcn Component Issue Analyzer v${packageJson.version}`);
+
+      const project = new ProjectScanner().scan(projectDir);
+      logger.info(`Project: ${project.name} (${project.directory})`);
+      logger.info(`UI components directory: ${project.ui_directory}`);
+      logger.info(`Installed components: ${project.components.join(', ') || 'none'}`);
+      if (project.unrecognized_files.length > 0) {
+        logger.warning(
+          `Not known shadcn/ui components, analyzed anyway: ${project.unrecognized_files.join(', ')}`
+        );
+      }
+
+      if (project.components.length === 0) {
+        logger.warning('No shadcn/ui components found to analyze');
+        return;
+      }
+
+      await runBatchAnalysis(project.components, options, project);
+    } catch (error) {
+      logger.error(`Scan failed: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('check')
+  .description('Check components against a severity policy (exit 0: pass, 1: policy violation, 2: tool error)')
+  .argument('[components...]', 'Components to check (defaults to the policy\'s components or project)')
+  .option('-p, --policy <file>', 'Policy file', DEFAULT_POLICY_FILE)
+  .option('--from-reports', 'Evaluate the latest saved JSON reports instead of running a new analysis', false)
+  .option('-r, --repos <repos>', 'Comma-separated owner/name repositories to search (defaults to GITHUB_REPOS)')
+  .option('-o, --output <file>', 'Also write the JSON verdict to a file')
+  .option('--no-cache', 'Re-analyze every issue instead of reusing cached analyses')
+  .option('--concurrency <number>', 'Maximum GitHub/LLM requests in flight at once (defaults to REQUEST_CONCURRENCY)')
+  .option('-v, --verbose', 'Enable verbose logging', false)
+  .exitOverride((error) => process.exit(error.exitCode === 0 ? 0 : CHECK_EXIT_CODES.ERROR))
+  .action(async (components: string[], options) => {
+    crashExitCode = CHECK_EXIT_CODES.ERROR;
+    // Keep stdout for the JSON verdict
+    const checkLogger = new Logger(options.verbose, true);
+    try {
+      const policyService = new PolicyService(checkLogger);
+      const policy = policyService.loadPolicy(options.policy);
+
+      let names = components.map((name) => name.trim().toLowerCase());
+      if (names.length === 0 && policy.components) {
+        names = policy.components.map((name) => name.toLowerCase());
+      }
+      if (names.length === 0 && policy.project) {
+        names = new ProjectScanner().scan(policy.project).components;
+      }
+      if (names.length === 0) {
+        throw new Error('No components to check: pass them as arguments or set "components" or "project" in the policy');
+      }
+
+      const repos = parseRepos(options.repos) ?? loadCliConfig().targetRepos;
+      const reports: ComponentAnalysisReport[] = [];
+      if (options.fromReports) {
+        const configService = new ConfigService(false, loadCliConfig());
+        const reportService = new ReportService(checkLogger);
+        for (const name of names) {
+          const reportPath = configService.findLatestReportPath(name);
+          if (!reportPath) {
+            throw new Error(`No saved report found for ${name}`);
+          }
+          checkLogger.debug(`Using ${reportPath}`);
+          reports.push(reportService.loadJsonReport(reportPath));
+        }
+      } else {
+        const analyzer = createAnalyzer(options, checkLogger);
+        for (const name of names) {
+          reports.push(
+            await analyzer.analyzeComponent({
+              component: name,
+              maxIssues: policy.max_issues,
+              repos,
+              includeClosedIssues: policy.fail_on.include_closed,
+              verbose: options.verbose,
+            })
+          );
+        }
+      }
+
+      const verdict = policyService.evaluate(policy, reports, repos);
+
+      checkLogger.separator();
+      checkLogger.header('🛡️  Policy Check');
+      verdict.violations.forEach((violation) => {
+        checkLogger.critical(
+          `${violation.component_name}: ${violation.issue} ${violation.title} ` +
+            `(${violation.severity_level}, ${violation.confidence_score}% confidence)`
+        );
+      });
+      if (verdict.allowlisted.length > 0) {
+        checkLogger.info(`Allowlisted: ${verdict.allowlisted.join(', ')}`);
+      }
+      if (verdict.unanalyzed.length > 0) {
+        checkLogger.warning(`Not checked (analysis failed): ${verdict.unanalyzed.join(', ')}`);
+      }
+      if (verdict.verdict === 'pass') {
+        checkLogger.success(
+          `Policy passed: ${verdict.checked_issues} analyzed issues in ${names.length} components checked`
+        );
+      } else if (verdict.verdict === 'fail') {
+        checkLogger.error(`Policy failed: ${verdict.violations.length} violations`);
+      } else {
+        checkLogger.error(`Check failed: ${verdict.error}`);
+      }
+
+      const verdictJson = JSON.stringify(verdict);
+      console.log(verdictJson);
+      if (options.output) {
+        fs.writeFileSync(options.output, verdictJson + '\n', 'utf-8');
+      }
+
+      const exitCodes = { pass: CHECK_EXIT_CODES.PASS, fail: CHECK_EXIT_CODES.VIOLATION, error: CHECK_EXIT_CODES.ERROR };
+      process.exitCode = exitCodes[verdict.verdict];
+    } catch (error) {
+      checkLogger.error(`Check failed: ${error}`);
+      console.log(JSON.stringify({ verdict: 'error', error: String(error) }));
+      process.exitCode = CHECK_EXIT_CODES.ERROR;
+    }
+  });
+
 program
   .command('list-components')
   .description('List common shadcn/ui components')
   .action(() => {
     logger.header('📋 Common shadcn/ui Components');
 
-    const components = [
-      'button',
-      'input',
-      'label',
-      'textarea',
-      'select',
-      'dialog',
-      'alert-dialog',
-      'sheet',
-      'popover',
-      'tooltip',
-      'dropdown-menu',
-      'context-menu',
-      'navigation-menu',
-      'menubar',
-      'table',
-      'card',
-      'avatar',
-      'badge',
-      'separator',
-      'tabs',
-      'accordion',
-      'collapsible',
-      'scroll-area',
-      'slider',
-      'switch',
-      'checkbox',
-      'radio-group',
-      'form',
-      'calendar',
-      'date-picker',
-      'command',
-      'toast',
-      'alert',
-      'progress',
-      'skeleton',
-      'aspect-ratio',
-      'resizable',
-      'toggle',
-      'toggle-group',
-      'hover-card',
-      'breadcrumb',
-      'pagination',
-      'carousel',
-      'drawer',
-      'sidebar',
-      'sonner',
-      'chart',
-    ];
-
-    components.forEach((component, index) => {
+    SHADCN_COMPONENTS.forEach((component, index) => {
       if (index % 4 === 0) console.log('');
       process.stdout.write(component.padEnd(20));
     });
@@ -136,6 +526,215 @@ program
     logger.info('Use: shadcn-analyzer analyze <component-name>');
   });
 
+program
+  .command('diff')
+  .description('Compare two JSON analysis reports of the same component')
+  .argument('<old>', 'Path to the older JSON report')
+  .argument('<new>', 'Path to the newer JSON report')
+  .option('-o, --output <file>', 'Output file path for the markdown diff report')
+  .action(async (oldPath: string, newPath: string, options) => {
+    try {
+      const configService = new ConfigService(false, loadCliConfig());
+      const diffService = new DiffService();
+      const reportService = new ReportService();
+
+      const diff = diffService.compareReports(
+        reportService.loadJsonReport(oldPath),
+        reportService.loadJsonReport(newPath)
+      );
+      logger.info(reportService.generateDiffConsoleSummary(diff));
+
+      const markdownPath =
+        options.output || configService.getDiffPath(diff.component_name, 'md', diff.new_analysis_date);
+      const jsonPath = configService.getDiffPath(diff.component_name, 'json', diff.new_analysis_date);
+      await reportService.saveDiffReport(diff, markdownPath);
+      await reportService.saveDiffJsonReport(diff, jsonPath);
+
+      if (diff.newly_critical.length > 0) {
+        logger.critical(`${diff.newly_critical.length} issues became critical since the previous report!`);
+      }
+    } catch (error) {
+      logger.error(`Diff failed: ${error}`);
+      process.exit(1);
+    }
+  });
+
+const cacheCommand = program.command('cache').description('Manage the on-disk analysis cache');
+
+cacheCommand
+  .command('clear')
+  .description('Remove cached analyses')
+  .argument('[component]', 'Only clear analyses for this component')
+  .action((component?: string) => {
+    try {
+      const cache = new AnalysisCache(new ConfigService(false, loadCliConfig()).getCachePath());
+      const removed = cache.clear(component?.toLowerCase());
+      logger.success(`Removed ${removed} cached analyses${component ? ` for ${component}` : ''}`);
+    } catch (error) {
+      logger.error(`Failed to clear cache: ${error}`);
+      process.exit(1);
+    }
+  });
+
+cacheCommand
+  .command('stats')
+  .description('Show analysis cache statistics')
+  .action(() => {
+    try {
+      const cache = new AnalysisCache(new ConfigService(false, loadCliConfig()).getCachePath());
+      const stats = cache.getStats();
+
+      logger.header('🗄️  Analysis Cache');
+      logger.info(`Location: ${stats.path}`);
+      logger.info(`Entries: ${stats.entries}`);
+      logger.info(`Size: ${(stats.size_bytes / 1024).toFixed(1)} KB`);
+
+      if (stats.entries > 0) {
+        logger.separator();
+        Object.entries(stats.by_component)
+          .sort((a, b) => b[1] - a[1])
+          .forEach(([component, count]) => console.log(`  ${component.padEnd(20)} ${count}`));
+        logger.separator();
+        Object.entries(stats.by_model).forEach(([model, count]) => console.log(`  ${model.padEnd(20)} ${count}`));
+      }
+    } catch (error) {
+      logger.error(`Failed to read cache: ${error}`);
+      process.exit(1);
+    }
+  });
+
+const configCommand = program.command('config').description('Manage the project config file');
+
+configCommand
+  .command('validate')
+  .description('Check a project config file for errors')
+  .argument('[file]', `Config file (defaults to ${PROJECT_CONFIG_FILES.join(' or ')})`)
+  .action((file?: string) => {
+    try {
+      const projectConfigService = new ProjectConfigService();
+      const configPath = file || program.opts().config || projectConfigService.findConfigFile();
+      if (!configPath) {
+        throw new Error(`No config file found (looked for ${PROJECT_CONFIG_FILES.join(', ')})`);
+      }
+
+      const config = projectConfigService.loadConfigFile(configPath);
+      const overrides = Object.keys(config.components || {});
+      logger.success(`${configPath} is valid`);
+      if (overrides.length > 0) {
+        logger.info(`Component overrides: ${overrides.join(', ')}`);
+      }
+    } catch (error) {
+      logger.error(`Config validation failed: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('query')
+  .description('Query the history of every saved analysis across runs and components')
+  .argument('[components...]', 'Only these components (default: all)')
+  .option('-s, --severity <levels>', `Comma-separated latest severities (${SEVERITY_ORDER.join(', ')})`)
+  .option('--opened-within <days>', 'Only issues opened in the last number of days')
+  .option('--state <state>', 'Only open or closed issues')
+  .option('-l, --label <label>', 'Only issues carrying this label')
+  .option('--model <model>', 'Only consider analyses made with this model')
+  .option('--min-severity-changes <number>', 'Only issues whose severity changed at least this many times')
+  .option('-n, --limit <number>', 'Maximum number of issues to show (default: 50)')
+  .option('--import', 'First add saved JSON reports that are missing from the history', false)
+  .option('--json', 'Print the matching issues as JSON', false)
+  .action((components: string[], options) => {
+    try {
+      const configService = new ConfigService(false, loadCliConfig());
+      const historyStore = new HistoryStore(configService.getHistoryPath(), logger);
+
+      if (options.import) {
+        const reportService = new ReportService();
+        const reports = configService.listStoredReports().map((stored) => reportService.loadJsonReport(stored.path));
+        logger.success(`Imported ${historyStore.importReports(reports)} of ${reports.length} saved reports`);
+      }
+
+      const severities = options.severity?.split(',').map((level: string) => level.trim());
+      const invalid = severities?.filter((level: string) => !SEVERITY_ORDER.includes(level as Severity));
+      if (invalid?.length) {
+        throw new Error(`Unknown severity "${invalid[0]}" (expected ${SEVERITY_ORDER.join(', ')})`);
+      }
+      if (options.state !== undefined && options.state !== 'open' && options.state !== 'closed') {
+        throw new Error(`Invalid state "${options.state}" (expected open or closed)`);
+      }
+
+      const days = options.openedWithin !== undefined ? parseInt(options.openedWithin) : undefined;
+      const minChanges =
+        options.minSeverityChanges !== undefined ? parseInt(options.minSeverityChanges) : undefined;
+      const limit = options.limit !== undefined ? parseInt(options.limit) : 50;
+      if ([days, minChanges, limit].some((value) => value !== undefined && (isNaN(value) || value < 0))) {
+        throw new Error('--opened-within, --min-severity-changes and --limit must be zero or a positive number');
+      }
+
+      const results = historyStore.query({
+        components: components.length > 0 ? components : undefined,
+        severities,
+        openedSince: days !== undefined ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined,
+        state: options.state,
+        label: options.label,
+        model: options.model,
+        minSeverityChanges: minChanges,
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(results.slice(0, limit), null, 2));
+        return;
+      }
+
+      logger.header(`🔎 ${results.length} matching issues`);
+      results.slice(0, limit).forEach((issue) => {
+        const trend = issue.timeline.map((entry) => entry.severity).join(' → ') || 'analysis failed';
+        const opened = issue.created_at.split('T')[0];
+        console.log(
+          `  ${(issue.severity || 'failed').padEnd(9)} ${issue.component_name.padEnd(16)} ` +
+            `${issue.repository}#${issue.number} ${issue.title}`
+        );
+        const runs = `${issue.runs} run${issue.runs === 1 ? '' : 's'}`;
+        console.log(`            ${issue.state}, opened ${opened}, ${runs}: ${trend}`);
+      });
+      if (results.length > limit) {
+        logger.info(`... and ${results.length - limit} more (use --limit or --json)`);
+      }
+    } catch (error) {
+      logger.error(`Query failed: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('serve')
+  .description('Browse stored reports in a local web dashboard')
+  .option('-p, --port <number>', `Port to listen on (default: ${DEFAULT_SERVE_PORT})`)
+  .option('--host <host>', `Interface to listen on (default: ${DEFAULT_SERVE_HOST}, this machine only)`)
+  .action(async (options) => {
+    try {
+      const configService = new ConfigService(false, loadCliConfig());
+      const server = new DashboardServer(configService, logger);
+      const port = options.port !== undefined ? parseInt(options.port) : DEFAULT_SERVE_PORT;
+      if (isNaN(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid port "${options.port}"`);
+      }
+
+      const url = await server.listen(port, options.host || DEFAULT_SERVE_HOST);
+      const components = server.getComponents();
+      logger.success(`Dashboard running at ${url}`);
+      logger.info(`Serving ${components.length} components from ${configService.getConfig().outputDir}`);
+      logger.info('Press Ctrl+C to stop');
+
+      process.on('SIGINT', async () => {
+        await server.close();
+        process.exit(0);
+      });
+    } catch (error) {
+      logger.error(`Serve failed: ${error}`);
+      process.exit(1);
+    }
+  });
+
 program
   .command('setup')
   .description('Setup environment variables')
@@ -152,6 +751,14 @@ program
     console.log('# Optional (defaults to gpt-4-turbo-preview)');
     console.log('OPENAI_MODEL=gpt-4-turbo-preview');
     console.log('');
+    console.log('# Optional: openai (default), openai-compatible or heuristic (offline)');
+    console.log('LLM_PROVIDER=openai');
+    console.log('LLM_BASE_URL=http://localhost:11434/v1  # for openai-compatible');
+    console.log('');
+    console.log('# Optional: repositories to search and GitHub Enterprise API URL');
+    console.log('GITHUB_REPOS=shadcn-ui/ui,radix-ui/primitives');
+    console.log('GITHUB_API_URL=https://github.example.com/api/v3');
+    console.log('');
     logger.info('GitHub token can be created at: https://github.com/settings/tokens');
     logger.info('OpenAI API key can be found at: https://platform.openai.com/api-keys');
   });
@@ -159,13 +766,13 @@ program
 // Handle unhandled promise rejections
 process.on('unhandledRejection', (reason, promise) => {
   logger.error(`Unhandled Rejection at: ${promise}, reason: ${reason}`);
-  process.exit(1);
+  process.exit(crashExitCode);
 });
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error) => {
   logger.error(`Uncaught Exception: ${error.message}`);
-  process.exit(1);
+  process.exit(crashExitCode);
 });
 
 // Parse command line arguments
@@ -0,0 +1,41 @@
+import { ShadcnIssueAnalyzer } from './analyzer';
+import { CreateAnalyzerOptions } from './types';
+import { SilentLogger } from './utils/logger';
+
+/**
+ * Create an analyzer for use as a library. Analysis results are returned, not written:
+ * call `saveReport` to write files.
+ */
+export function createAnalyzer(options: CreateAnalyzerOptions): ShadcnIssueAnalyzer {
+  return new ShadcnIssueAnalyzer(false, {
+    ...options,
+    useCache: options.useCache ?? false,
+    logger: options.logger ?? new SilentLogger(),
+  });
+}
+
+export { ShadcnIssueAnalyzer } from './analyzer';
+export { GitHubService } from './services/github';
+export { OpenAIService } from './services/openai';
+export { OpenAICompatibleService } from './services/openai-compatible';
+export { HeuristicService } from './services/heuristic';
+export { createLLMProvider, createPromptTemplateService } from './services/llm';
+export { PromptTemplateService, DEFAULT_PROMPTS_DIR } from './services/prompts';
+export { RequestScheduler } from './services/scheduler';
+export { ReportService } from './services/report';
+export { ReporterRegistry, DEFAULT_REPORT_FORMATS } from './services/reporters';
+export { DiffService } from './services/diff';
+export { IssueClusterer } from './services/clustering';
+export { AnalysisCache } from './services/cache';
+export { ProjectScanner } from './services/project-scanner';
+export { PolicyService, CHECK_EXIT_CODES, DEFAULT_POLICY_FILE } from './services/policy';
+export { ProjectConfigService, PROJECT_CONFIG_FILES, defineConfig } from './services/project-config';
+export { DashboardServer, DEFAULT_SERVE_HOST, DEFAULT_SERVE_PORT } from './services/dashboard-server';
+export { NotificationService, NOTIFICATION_SINK_TYPES } from './services/notifications';
+export { HistoryStore } from './services/history';
+export { UsageTracker } from './services/usage';
+export { ConfigService, DEFAULT_CONFIG, loadConfigFromEnv } from './utils/config';
+export { Logger, SilentLogger } from './utils/logger';
+export { SHADCN_COMPONENTS } from './utils/components';
+export { DEFAULT_MODEL_PRICES, formatUsage } from './utils/usage';
+export * from './types';
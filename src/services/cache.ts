@@ -0,0 +1,141 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AnalyzerLogger, CachedAnalysis, CacheStats, GitHubIssue, IssueAnalysis } from '../types';
+import { issueKey, issueRepository } from '../utils/issues';
+import { Logger } from '../utils/logger';
+
+/**
+ * On-disk cache of issue analyses. An entry is reused only while the issue revision
+ * (`updated_at`), the model and the prompt hash all match; otherwise it is replaced
+ * on the next analysis. Each component/issue pair keeps a single entry.
+ */
+export class AnalysisCache {
+  private entries: Record<string, CachedAnalysis> = {};
+  private loaded = false;
+  private dirty = false;
+
+  constructor(
+    private readonly cachePath: string,
+    private readonly logger: AnalyzerLogger = new Logger()
+  ) {}
+
+  /**
+   * Look up a cached analysis for the current revision of an issue
+   */
+  get(component: string, issue: GitHubIssue, model: string, promptHash: string): IssueAnalysis | undefined {
+    this.load();
+
+    const entry = this.entries[this.buildKey(component, issue)];
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.updated_at !== issue.updated_at || entry.model !== model || entry.prompt_hash !== promptHash) {
+      return undefined;
+    }
+
+    return entry.analysis;
+  }
+
+  /**
+   * Store an analysis for the current revision of an issue
+   */
+  set(component: string, issue: GitHubIssue, model: string, promptHash: string, analysis: IssueAnalysis): void {
+    this.load();
+
+    this.entries[this.buildKey(component, issue)] = {
+      component_name: component,
+      repository: issueRepository(issue),
+      issue_number: issue.number,
+      updated_at: issue.updated_at,
+      model,
+      prompt_hash: promptHash,
+      cached_at: new Date().toISOString(),
+      analysis,
+    };
+    this.dirty = true;
+  }
+
+  /**
+   * Write pending changes to disk
+   */
+  save(): void {
+    if (!this.dirty) {
+      return;
+    }
+
+    try {
+      const dir = path.dirname(this.cachePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      fs.writeFileSync(this.cachePath, JSON.stringify(this.entries, null, 2), 'utf-8');
+      this.dirty = false;
+    } catch (error) {
+      throw new Error(`Failed to save analysis cache: ${error}`);
+    }
+  }
+
+  /**
+   * Remove cached analyses, for one component or all of them. Returns the number removed.
+   */
+  clear(component?: string): number {
+    this.load();
+
+    const keys = Object.keys(this.entries).filter(
+      (key) => !component || this.entries[key].component_name === component
+    );
+    keys.forEach((key) => delete this.entries[key]);
+
+    this.dirty = true;
+    this.save();
+
+    return keys.length;
+  }
+
+  /**
+   * Summarize the cache contents
+   */
+  getStats(): CacheStats {
+    this.load();
+
+    const byComponent: Record<string, number> = {};
+    const byModel: Record<string, number> = {};
+    Object.values(this.entries).forEach((entry) => {
+      byComponent[entry.component_name] = (byComponent[entry.component_name] || 0) + 1;
+      byModel[entry.model] = (byModel[entry.model] || 0) + 1;
+    });
+
+    return {
+      path: this.cachePath,
+      entries: Object.keys(this.entries).length,
+      size_bytes: fs.existsSync(this.cachePath) ? fs.statSync(this.cachePath).size : 0,
+      by_component: byComponent,
+      by_model: byModel,
+    };
+  }
+
+  private load(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    if (!fs.existsSync(this.cachePath)) {
+      return;
+    }
+
+    try {
+      this.entries = JSON.parse(fs.readFileSync(this.cachePath, 'utf-8'));
+    } catch (error) {
+      // A corrupt cache is not fatal; it is rebuilt on the next save
+      this.logger.warning(`Ignoring unreadable analysis cache at ${this.cachePath}: ${error}`);
+      this.entries = {};
+    }
+  }
+
+  private buildKey(component: string, issue: GitHubIssue): string {
+    return `${component}:${issueKey(issue)}`;
+  }
+}
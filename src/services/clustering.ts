@@ -0,0 +1,211 @@
+import { GitHubIssue, IssueAnalysis, IssueCluster } from '../types';
+import { issueKey, issueRepository } from '../utils/issues';
+import { countsTowardSeverity, effectiveSeverity, Severity, severityRank } from '../utils/severity';
+
+type ReportItem = { github_issue: GitHubIssue; analysis: IssueAnalysis; possibly_unrelated?: boolean };
+
+/**
+ * Words too common in issue reports to say anything about the problem
+ */
+const STOP_WORDS = new Set(
+  (
+    'the and for with that this from when not but are was were have has had does did doesnt dont cant ' +
+    'into onto about after before then than there their they them its you your our can could would ' +
+    'should will just also only using use used get got what which where while how why all any some more ' +
+    'other same like here issue bug component components error problem work working works shadcn shadcnui ' +
+    'describe expected behavior behaviour reproduce reproduction steps actual system info version browser ' +
+    'affected additional context screenshots following code example'
+  ).split(' ')
+);
+
+/**
+ * Phrases marking an issue as a duplicate of another one in the same repository
+ */
+const DUPLICATE_PATTERN = /\b(?:duplicate of|dupe of|same as|duplicates)\s+#(\d+)/gi;
+
+/**
+ * Groups the issues of a report that describe the same problem, using TF-IDF cosine similarity
+ * over titles and bodies plus explicit "duplicate of #123" references. It runs offline and is
+ * deterministic, so the same issues always produce the same clusters.
+ */
+export class IssueClusterer {
+  /**
+   * @param threshold Minimum cosine similarity (0-1) for two issues to be grouped
+   */
+  constructor(private threshold: number = 0.45) {}
+
+  /**
+   * Cluster the issues of a component. Issues without a similar one are left out; clusters
+   * are numbered from the most to the least severe.
+   */
+  cluster(componentName: string, items: ReportItem[]): IssueCluster[] {
+    if (items.length < 2) {
+      return [];
+    }
+
+    const ignored = new Set(this.tokenize(componentName));
+    const vectors = this.buildVectors(items, ignored);
+    const parent = items.map((_, index) => index);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+    const union = (a: number, b: number) => {
+      parent[find(a)] = find(b);
+    };
+
+    const indexByKey = new Map(items.map((item, index) => [issueKey(item.github_issue), index]));
+    const duplicateTargets = new Set<number>();
+    items.forEach((item, index) => {
+      this.findDuplicateReferences(item.github_issue).forEach((key) => {
+        const target = indexByKey.get(key);
+        if (target !== undefined && target !== index) {
+          union(index, target);
+          duplicateTargets.add(target);
+        }
+      });
+
+      for (let other = index + 1; other < items.length; other++) {
+        if (this.cosine(vectors[index], vectors[other]) >= this.threshold) {
+          union(index, other);
+        }
+      }
+    });
+
+    const groups = new Map<number, number[]>();
+    items.forEach((_, index) => {
+      const root = find(index);
+      groups.set(root, [...(groups.get(root) || []), index]);
+    });
+
+    const clusters = [...groups.values()]
+      .filter((members) => members.length > 1)
+      .map((members) => this.createCluster(items, vectors, members, duplicateTargets));
+
+    return clusters
+      .sort(
+        (a, b) =>
+          severityRank(b.highest_severity) - severityRank(a.highest_severity) ||
+          b.issues.length - a.issues.length ||
+          a.canonical_issue.localeCompare(b.canonical_issue)
+      )
+      .map((cluster, index) => ({ ...cluster, cluster_id: index + 1 }));
+  }
+
+  private createCluster(
+    items: ReportItem[],
+    vectors: Array<Map<string, number>>,
+    members: number[],
+    duplicateTargets: Set<number>
+  ): IssueCluster {
+    // The issue others were marked duplicates of, otherwise the oldest one
+    const byAge = [...members].sort((a, b) =>
+      items[a].github_issue.created_at.localeCompare(items[b].github_issue.created_at)
+    );
+    const canonical = byAge.find((index) => duplicateTargets.has(index)) ?? byAge[0];
+    const ordered = [canonical, ...byAge.filter((index) => index !== canonical)];
+
+    const counted = members.map((index) => items[index]).filter(countsTowardSeverity);
+    const severities = counted.map((item) => effectiveSeverity(item.analysis));
+    const highest = severities.reduce<Severity>(
+      (max, severity) => (severityRank(severity) > severityRank(max) ? severity : max),
+      'low'
+    );
+
+    return {
+      cluster_id: 0,
+      canonical_issue: issueKey(items[canonical].github_issue),
+      title: items[canonical].github_issue.title,
+      issues: ordered.map((index) => issueKey(items[index].github_issue)),
+      keywords: this.sharedKeywords(members.map((index) => vectors[index])),
+      highest_severity: highest,
+      critical_issues: severities.filter((severity) => severity === 'critical').length,
+    };
+  }
+
+  /**
+   * Terms weighing most across the cluster that appear in at least two of its issues
+   */
+  private sharedKeywords(vectors: Array<Map<string, number>>): string[] {
+    const weights = new Map<string, { total: number; count: number }>();
+    vectors.forEach((vector) => {
+      vector.forEach((weight, term) => {
+        const entry = weights.get(term) || { total: 0, count: 0 };
+        weights.set(term, { total: entry.total + weight, count: entry.count + 1 });
+      });
+    });
+
+    return [...weights.entries()]
+      .filter(([, entry]) => entry.count > 1)
+      .sort((a, b) => b[1].total - a[1].total || a[0].localeCompare(b[0]))
+      .slice(0, 5)
+      .map(([term]) => term);
+  }
+
+  /**
+   * Normalized TF-IDF vector of each issue. Title terms count double since titles state the
+   * problem most directly.
+   */
+  private buildVectors(items: ReportItem[], ignored: Set<string>): Array<Map<string, number>> {
+    const termCounts = items.map((item) => {
+      const { title, body } = item.github_issue;
+      const counts = new Map<string, number>();
+      const add = (text: string, weight: number) => {
+        this.tokenize(text)
+          .filter((term) => !ignored.has(term))
+          .forEach((term) => counts.set(term, (counts.get(term) || 0) + weight));
+      };
+      add(title, 2);
+      add((body || '').slice(0, 4000), 1);
+      return counts;
+    });
+
+    const documentFrequency = new Map<string, number>();
+    termCounts.forEach((counts) => {
+      counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    });
+
+    return termCounts.map((counts) => {
+      const vector = new Map<string, number>();
+      counts.forEach((count, term) => {
+        // Terms in nearly every issue, such as issue template headings, weigh almost nothing
+        const idf = Math.log((1 + items.length) / documentFrequency.get(term)!);
+        vector.set(term, (1 + Math.log(count)) * idf);
+      });
+
+      const norm = Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0));
+      vector.forEach((weight, term) => vector.set(term, norm > 0 ? weight / norm : 0));
+      return vector;
+    });
+  }
+
+  private cosine(a: Map<string, number>, b: Map<string, number>): number {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let dot = 0;
+    small.forEach((weight, term) => {
+      dot += weight * (large.get(term) || 0);
+    });
+    return dot;
+  }
+
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/https?:\/\/\S+/g, ' ')
+      .replace(/['’]/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter((term) => term.length > 2 && !STOP_WORDS.has(term) && !/^\d+$/.test(term));
+  }
+
+  /**
+   * Keys of the issues an issue says it duplicates
+   */
+  private findDuplicateReferences(issue: GitHubIssue): string[] {
+    const text = `${issue.title}\n${issue.body || ''}`;
+    const repository = issueRepository(issue);
+    return [...text.matchAll(DUPLICATE_PATTERN)].map((match) => `${repository}#${match[1]}`);
+  }
+}
@@ -0,0 +1,270 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import {
+  AnalyzerLogger,
+  ComponentAnalysisReport,
+  ComponentHistory,
+  ReportHistoryEntry,
+  StoredReport,
+} from '../types';
+import { ConfigService } from '../utils/config';
+import { Logger } from '../utils/logger';
+import { analysisFailed, effectiveSeverity } from '../utils/severity';
+import { HtmlReportRenderer } from './html-report';
+import { ReportService } from './report';
+
+export const DEFAULT_SERVE_PORT = 4400;
+export const DEFAULT_SERVE_HOST = '127.0.0.1';
+
+type ReportItem = ComponentAnalysisReport['issues'][number];
+
+/**
+ * Local HTTP server for browsing the JSON reports in the output directory. Reports are read
+ * from disk on every request, so reports written by a running `analyze` show up on reload.
+ *
+ * Pages: `/`, `/components/<name>` and `/components/<name>/reports/<time|latest>`.
+ * JSON API: the same paths under `/api`; report issues can be filtered with `severity`,
+ * `label` and `state` query parameters.
+ */
+export class DashboardServer {
+  private server?: http.Server;
+  private reportService: ReportService;
+  private htmlRenderer = new HtmlReportRenderer();
+  private historyCache = new Map<string, { mtimeMs: number; entry: ReportHistoryEntry }>();
+  // Modification times of the unreadable reports already logged, so each is logged once per version
+  private unreadableReports = new Map<string, number>();
+
+  constructor(
+    private configService: ConfigService,
+    private logger: AnalyzerLogger = new Logger()
+  ) {
+    this.reportService = new ReportService(logger);
+  }
+
+  /**
+   * Start listening and resolve with the dashboard URL
+   */
+  listen(port: number = DEFAULT_SERVE_PORT, host: string = DEFAULT_SERVE_HOST): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((request, response) => this.handle(request, response));
+      server.once('error', (error) => reject(new Error(`Failed to start dashboard server: ${error}`)));
+      server.listen(port, host, () => {
+        this.server = server;
+        const address = server.address();
+        const boundPort = typeof address === 'object' && address ? address.port : port;
+        resolve(`http://${host.includes(':') ? `[${host}]` : host}:${boundPort}`);
+      });
+    });
+  }
+
+  /**
+   * Stop accepting connections
+   */
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close((error) => (error ? reject(error) : resolve()));
+      this.server = undefined;
+    });
+  }
+
+  /**
+   * Every component with stored reports, the most critical first
+   */
+  getComponents(): ComponentHistory[] {
+    const byComponent = new Map<string, StoredReport[]>();
+    this.configService.listStoredReports().forEach((stored) => {
+      byComponent.set(stored.component_name, [...(byComponent.get(stored.component_name) || []), stored]);
+    });
+
+    return [...byComponent.values()]
+      .map((reports) => this.buildHistory(reports))
+      .filter((history): history is ComponentHistory => history !== undefined)
+      .sort(
+        (a, b) =>
+          b.latest.critical_issues - a.latest.critical_issues ||
+          b.latest.high_priority_issues - a.latest.high_priority_issues ||
+          a.component_name.localeCompare(b.component_name)
+      );
+  }
+
+  /**
+   * The stored reports of one component, or undefined when it has none
+   */
+  getHistory(component: string): ComponentHistory | undefined {
+    return this.buildHistory(this.configService.listStoredReports(component));
+  }
+
+  /**
+   * Load a stored report by the time stamp in its file name (see `StoredReport.date`), or the
+   * newest one for `latest`
+   */
+  loadReport(component: string, date: string): ComponentAnalysisReport | undefined {
+    const reports = this.configService.listStoredReports(component);
+    const stored = date === 'latest' ? reports[reports.length - 1] : reports.find((report) => report.date === date);
+    return stored && this.reportService.loadJsonReport(stored.path);
+  }
+
+  private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const url = new URL(request.url || '/', 'http://localhost');
+    try {
+      if (request.method !== 'GET' && request.method !== 'HEAD') {
+        this.send(response, 405, 'text/plain', 'Method not allowed');
+        return;
+      }
+
+      const segments = url.pathname
+        .split('/')
+        .filter((segment) => segment.length > 0)
+        .map((segment) => decodeURIComponent(segment));
+      const api = segments[0] === 'api';
+      const [section, component, reports, date] = api ? segments.slice(1) : segments;
+
+      if (section === undefined) {
+        const components = this.getComponents();
+        return api
+          ? this.sendJson(response, 200, components)
+          : this.send(response, 200, 'text/html', this.htmlRenderer.renderIndex(components, this.outputDir()));
+      }
+
+      if (section === 'components' && component === undefined && api) {
+        return this.sendJson(response, 200, this.getComponents());
+      }
+
+      if (section === 'components' && component !== undefined && reports === undefined) {
+        const history = this.getHistory(component);
+        if (!history) {
+          return this.notFound(response, api, `No reports for component "${component}"`);
+        }
+        return api
+          ? this.sendJson(response, 200, history)
+          : this.send(response, 200, 'text/html', this.htmlRenderer.renderHistory(history));
+      }
+
+      if (section === 'components' && component !== undefined && reports === 'reports' && date !== undefined) {
+        const report = this.loadReport(component, date);
+        if (!report) {
+          return this.notFound(response, api, `No ${date} report for component "${component}"`);
+        }
+        return api
+          ? this.sendJson(response, 200, this.filterReport(report, url.searchParams))
+          : this.send(
+              response,
+              200,
+              'text/html',
+              this.htmlRenderer.render(report, {
+                href: `/components/${encodeURIComponent(component)}`,
+                label: `${component} history`,
+              })
+            );
+      }
+
+      this.notFound(response, api, `Not found: ${url.pathname}`);
+    } catch (error) {
+      this.logger.error(`Dashboard request ${url.pathname} failed: ${error}`);
+      this.send(response, 500, 'text/plain', `Internal error: ${error}`);
+    }
+  }
+
+  /**
+   * Keep the report issues matching the `severity`, `label` and `state` query parameters.
+   * Severity also accepts `failed` and `unrelated`, like the HTML report's filter.
+   */
+  private filterReport(report: ComponentAnalysisReport, params: URLSearchParams): ComponentAnalysisReport {
+    const severity = params.get('severity');
+    const label = params.get('label');
+    const state = params.get('state');
+    if (!severity && !label && !state) {
+      return report;
+    }
+
+    const severityLabel = (item: ReportItem) => {
+      if (analysisFailed(item.analysis)) {
+        return 'failed';
+      }
+      return item.possibly_unrelated ? 'unrelated' : effectiveSeverity(item.analysis);
+    };
+
+    return {
+      ...report,
+      issues: report.issues.filter(
+        (item) =>
+          (!severity || severityLabel(item) === severity) &&
+          (!label || item.github_issue.labels.some((issueLabel) => issueLabel.name === label)) &&
+          (!state || item.github_issue.state === state)
+      ),
+    };
+  }
+
+  private buildHistory(reports: StoredReport[]): ComponentHistory | undefined {
+    const history = reports
+      .map((stored) => this.summarize(stored))
+      .filter((entry): entry is ReportHistoryEntry => entry !== undefined);
+    if (history.length === 0) {
+      return undefined;
+    }
+    return { component_name: reports[0].component_name, latest: history[history.length - 1], history };
+  }
+
+  /**
+   * Counts of a stored report, cached until the file changes. An unreadable report, such as one
+   * cut short while being written, is logged and left out rather than failing the page.
+   */
+  private summarize(stored: StoredReport): ReportHistoryEntry | undefined {
+    let mtimeMs = 0;
+    let report: ComponentAnalysisReport;
+    try {
+      mtimeMs = fs.statSync(stored.path).mtimeMs;
+      const cached = this.historyCache.get(stored.path);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.entry;
+      }
+      report = this.reportService.loadJsonReport(stored.path);
+    } catch (error) {
+      if (this.unreadableReports.get(stored.path) !== mtimeMs) {
+        this.unreadableReports.set(stored.path, mtimeMs);
+        this.logger.warning(`Skipping unreadable report: ${error}`);
+      }
+      return undefined;
+    }
+
+    const entry: ReportHistoryEntry = {
+      date: stored.date,
+      analysis_date: report.analysis_date,
+      total_issues: report.total_issues,
+      critical_issues: report.critical_issues,
+      high_priority_issues: report.high_priority_issues,
+      possibly_unrelated: report.possibly_unrelated ?? 0,
+      prompt_template: report.prompt_template,
+    };
+    this.historyCache.set(stored.path, { mtimeMs, entry });
+    return entry;
+  }
+
+  private outputDir(): string {
+    return this.configService.getConfig().outputDir;
+  }
+
+  private notFound(response: http.ServerResponse, api: boolean, message: string): void {
+    if (api) {
+      this.sendJson(response, 404, { error: message });
+    } else {
+      this.send(response, 404, 'text/plain', message);
+    }
+  }
+
+  private sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+    this.send(response, status, 'application/json', JSON.stringify(body, null, 2));
+  }
+
+  private send(response: http.ServerResponse, status: number, contentType: string, body: string): void {
+    response.writeHead(status, {
+      'Content-Type': `${contentType}; charset=utf-8`,
+      'Content-Length': Buffer.byteLength(body),
+    });
+    response.end(body);
+  }
+}
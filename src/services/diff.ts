@@ -0,0 +1,136 @@
+import {
+  ComponentAnalysisReport,
+  CountChange,
+  GitHubIssue,
+  IssueAnalysis,
+  IssueChange,
+  IssueChangeEvent,
+  ReportDiff,
+} from '../types';
+import { issueKey, issueRepository } from '../utils/issues';
+import { countsTowardSeverity, effectiveSeverity, severityRank } from '../utils/severity';
+
+type ReportItem = { github_issue: GitHubIssue; analysis: IssueAnalysis; possibly_unrelated?: boolean };
+
+export class DiffService {
+  /**
+   * Compare two reports of the same component
+   */
+  compareReports(oldReport: ComponentAnalysisReport, newReport: ComponentAnalysisReport): ReportDiff {
+    if (oldReport.component_name !== newReport.component_name) {
+      throw new Error(
+        `Cannot compare reports for different components: ${oldReport.component_name} and ${newReport.component_name}`
+      );
+    }
+
+    const oldItems = new Map(oldReport.issues.map((item) => [issueKey(item.github_issue), item]));
+    const newItems = new Map(newReport.issues.map((item) => [issueKey(item.github_issue), item]));
+
+    const diff: ReportDiff = {
+      component_name: newReport.component_name,
+      old_analysis_date: oldReport.analysis_date,
+      new_analysis_date: newReport.analysis_date,
+      old_prompt_template: this.describeTemplate(oldReport),
+      new_prompt_template: this.describeTemplate(newReport),
+      counts: {
+        total_issues: this.countChange(oldReport.total_issues, newReport.total_issues),
+        critical_issues: this.countChange(oldReport.critical_issues, newReport.critical_issues),
+        high_priority_issues: this.countChange(oldReport.high_priority_issues, newReport.high_priority_issues),
+      },
+      newly_critical: [],
+      escalations: [],
+      downgrades: [],
+      resolved: [],
+      new_issues: [],
+      no_longer_reported: [],
+    };
+
+    newItems.forEach((newItem, key) => {
+      const oldItem = oldItems.get(key);
+      const change = this.buildChange(oldItem, newItem);
+      const newSeverity = effectiveSeverity(newItem.analysis);
+
+      if (!oldItem) {
+        diff.new_issues.push(change);
+        if (countsTowardSeverity(newItem) && newSeverity === 'critical') {
+          diff.newly_critical.push(change);
+        }
+        return;
+      }
+
+      // Failed analyses and possibly unrelated issues have no severity worth comparing
+      if (countsTowardSeverity(oldItem) && countsTowardSeverity(newItem)) {
+        const oldSeverity = effectiveSeverity(oldItem.analysis);
+        const delta = severityRank(newSeverity) - severityRank(oldSeverity);
+        if (delta > 0) {
+          diff.escalations.push(change);
+          if (newSeverity === 'critical') {
+            diff.newly_critical.push(change);
+          }
+        } else if (delta < 0) {
+          diff.downgrades.push(change);
+        }
+      } else if (countsTowardSeverity(newItem) && newSeverity === 'critical') {
+        // An issue whose earlier analysis failed or looked unrelated was not critical before
+        diff.newly_critical.push(change);
+      }
+
+      if (oldItem.github_issue.state === 'open' && newItem.github_issue.state === 'closed') {
+        diff.resolved.push(change);
+      }
+    });
+
+    oldItems.forEach((oldItem, key) => {
+      if (!newItems.has(key)) {
+        diff.no_longer_reported.push(this.buildChange(oldItem, undefined));
+      }
+    });
+
+    return diff;
+  }
+
+  /**
+   * Flatten a diff into change log events: new issues, severity changes and closed issues
+   */
+  listChangeEvents(diff: ReportDiff): IssueChangeEvent[] {
+    const events = (changes: IssueChange[], change: IssueChangeEvent['change']) =>
+      changes.map((issueChange) => ({
+        component_name: diff.component_name,
+        detected_at: diff.new_analysis_date,
+        change,
+        ...issueChange,
+      }));
+
+    return [
+      ...events(diff.new_issues, 'new'),
+      ...events(diff.escalations, 'escalation'),
+      ...events(diff.downgrades, 'downgrade'),
+      ...events(diff.resolved, 'resolved'),
+    ];
+  }
+
+  private buildChange(oldItem?: ReportItem, newItem?: ReportItem): IssueChange {
+    const issue = (newItem || oldItem)!.github_issue;
+    return {
+      repository: issueRepository(issue),
+      number: issue.number,
+      title: issue.title,
+      html_url: issue.html_url,
+      old_severity: oldItem && effectiveSeverity(oldItem.analysis),
+      new_severity: newItem && effectiveSeverity(newItem.analysis),
+      old_state: oldItem?.github_issue.state,
+      new_state: newItem?.github_issue.state,
+    };
+  }
+
+  /**
+   * Template that produced a report, as "name (hash)"; reports from older versions don't record it
+   */
+  private describeTemplate(report: ComponentAnalysisReport): string | undefined {
+    return report.prompt_template ? `${report.prompt_template} (${report.prompt_hash})` : undefined;
+  }
+
+  private countChange(before: number, after: number): CountChange {
+    return { before, after, change: after - before };
+  }
+}
@@ -1,93 +1,351 @@
 import { Octokit } from '@octokit/rest';
-import { GitHubIssue, GitHubSearchResponse } from '../types';
+import {
+  AnalyzerLogger,
+  GitHubClient,
+  GitHubComment,
+  GitHubIssue,
+  GitHubSearchResponse,
+  IssueSearchOptions,
+  LinkedPullRequest,
+} from '../types';
+import { DEFAULT_REPOSITORY, parseRepository } from '../utils/issues';
+import { Logger } from '../utils/logger';
+import { RequestScheduler } from './scheduler';
 
-export class GitHubService {
+export class GitHubService implements GitHubClient {
   private octokit: Octokit;
-  private readonly REPO_OWNER = 'shadcn-ui';
-  private readonly REPO_NAME = 'ui';
+  private repos: string[];
+  private scheduler: RequestScheduler;
+  private logger: AnalyzerLogger;
+  private readonly SEARCH_PAGE_SIZE = 100;
+  private readonly SEARCH_RESULT_LIMIT = 1000;
+  private readonly COMMENT_PAGE_LIMIT = 3;
+  private readonly TIMELINE_PAGE_LIMIT = 3;
+  private readonly LINKING_EVENTS = ['cross-referenced', 'connected'];
+  private readonly MAINTAINER_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
 
-  constructor(token?: string) {
+  constructor(
+    token?: string,
+    options: { baseUrl?: string; repos?: string[]; scheduler?: RequestScheduler; logger?: AnalyzerLogger } = {}
+  ) {
     this.octokit = new Octokit({
       auth: token,
+      baseUrl: options.baseUrl,
     });
+    this.repos = options.repos && options.repos.length > 0 ? options.repos : [DEFAULT_REPOSITORY];
+    this.repos.forEach((repository) => parseRepository(repository));
+    this.logger = options.logger || new Logger();
+    this.scheduler = options.scheduler || new RequestScheduler({ logger: this.logger });
   }
 
   /**
-   * Search for issues related to a specific component
+   * Send a request through the scheduler. When a response shows the rate limit is used up,
+   * further GitHub requests wait for the reset instead of failing.
+   */
+  private async request<T extends { headers: Record<string, any> }>(label: string, send: () => Promise<T>): Promise<T> {
+    const response = await this.scheduler.schedule('github', label, send);
+
+    const { headers } = response;
+    if (headers['x-ratelimit-remaining'] === '0' && headers['x-ratelimit-reset']) {
+      this.scheduler.pauseUntil(
+        'github',
+        Number(headers['x-ratelimit-reset']) * 1000 + 1000,
+        `GitHub ${headers['x-ratelimit-resource'] || 'core'} rate limit used up`
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Search for issues related to a specific component across the target repositories.
+   * The issue budget is shared between repositories; what one leaves unused goes to the next.
    */
   async searchComponentIssues(
     componentName: string,
-    options: {
-      maxIssues?: number;
-      includeClosedIssues?: boolean;
-      state?: 'open' | 'closed' | 'all';
-    } = {}
+    options: IssueSearchOptions = {}
   ): Promise<GitHubIssue[]> {
     const { maxIssues = 100, includeClosedIssues = false } = options;
     const state = options.state || (includeClosedIssues ? 'all' : 'open');
+    const repos = options.repos && options.repos.length > 0 ? options.repos : this.repos;
+
+    const allIssues: GitHubIssue[] = [];
+    for (const [index, repository] of repos.entries()) {
+      const remaining = maxIssues - allIssues.length;
+      if (remaining <= 0) {
+        break;
+      }
+
+      const share = Math.ceil(remaining / (repos.length - index));
+      allIssues.push(...(await this.searchRepositoryIssues(repository, componentName, state, share, options)));
+    }
+
+    return allIssues;
+  }
 
+  /**
+   * Search one repository with every query strategy, up to `maxIssues`. The queries take turns:
+   * each round, every query with results left adds its share of the remaining budget, so the
+   * broad first queries can't use it all up. Once `maxIssues` is reached the remaining results
+   * are not read, so `matched_queries` only lists the queries an issue was seen in until then.
+   */
+  private async searchRepositoryIssues(
+    repository: string,
+    componentName: string,
+    state: 'open' | 'closed' | 'all',
+    maxIssues: number,
+    filters: IssueSearchOptions
+  ): Promise<GitHubIssue[]> {
     try {
-      // Create search queries for the component
-      // const searchQueries = this.buildSearchQueries(componentName, state);
-      const searchQueries = [`repo:shadcn-ui/ui is:issue state:open ${componentName}`];
+      const labels = (filters.labels || []).map((label) => label.toLowerCase());
       const allIssues: GitHubIssue[] = [];
-      const seenIssues = new Set<number>();
-
-      for (const query of searchQueries) {
-        console.log(`Searching with query: ${query}`);
-
-        const response = await this.octokit.rest.search.issuesAndPullRequests({
-          q: query,
-          sort: 'updated',
-          order: 'desc',
-          per_page: Math.min(maxIssues, 100),
-        });
-
-        // Filter out pull requests and duplicates
-        const issues = response.data.items
-          .filter((item) => !item.pull_request && !seenIssues.has(item.number))
-          .map((item) => {
-            seenIssues.add(item.number);
-            return this.transformIssue(item);
-          });
+      const issuesByNumber = new Map<number, GitHubIssue>();
+      const perPage = Math.min(maxIssues, this.SEARCH_PAGE_SIZE);
+      const searches = this.buildSearchQueries(repository, componentName, state, filters).map((query) => ({
+        query,
+        page: 0,
+        pending: [] as any[], // Fetched results not yet taken
+        exhausted: false,
+      }));
 
-        allIssues.push(...issues);
+      const fetchNextPage = async (search: (typeof searches)[number]) => {
+        search.page++;
+        this.logger.debug(`Searching with query: ${search.query} (page ${search.page})`);
+        const response = await this.request(`GitHub search (page ${search.page})`, () =>
+          this.octokit.rest.search.issuesAndPullRequests({
+            q: search.query,
+            sort: 'updated',
+            order: 'desc',
+            per_page: perPage,
+            page: search.page,
+          })
+        );
 
-        if (allIssues.length >= maxIssues) {
+        // Filter out pull requests and issues without one of the wanted labels
+        search.pending.push(
+          ...response.data.items
+            .filter((item) => !item.pull_request)
+            .filter(
+              (item) =>
+                labels.length === 0 ||
+                item.labels.some((label: any) => labels.includes(String(label.name ?? label).toLowerCase()))
+            )
+        );
+
+        // The search API only exposes the first 1000 results of a query
+        const available = Math.min(response.data.total_count, this.SEARCH_RESULT_LIMIT);
+        search.exhausted = response.data.items.length < perPage || search.page * perPage >= available;
+      };
+
+      while (allIssues.length < maxIssues) {
+        const active = searches.filter((search) => search.pending.length > 0 || !search.exhausted);
+        if (active.length === 0) {
           break;
         }
+
+        // Rounded down so the last queries get their turn too; what is left goes round again
+        const share = Math.max(1, Math.floor((maxIssues - allIssues.length) / active.length));
+        for (const search of active) {
+          let added = 0;
+          while (added < share && allIssues.length < maxIssues) {
+            if (search.pending.length === 0) {
+              if (search.exhausted) {
+                break;
+              }
+              await fetchNextPage(search);
+              continue;
+            }
+
+            // For duplicates, record the additional matching query
+            const item = search.pending.shift();
+            const existing = issuesByNumber.get(item.number);
+            if (existing) {
+              if (!existing.matched_queries!.includes(search.query)) {
+                existing.matched_queries!.push(search.query);
+              }
+            } else {
+              const issue = { ...this.transformIssue(item, repository), matched_queries: [search.query] };
+              issuesByNumber.set(item.number, issue);
+              allIssues.push(issue);
+              added++;
+            }
+          }
+        }
       }
 
-      return allIssues.slice(0, maxIssues);
+      return allIssues;
     } catch (error) {
-      console.error('Error searching GitHub issues:', error);
-      throw new Error(`Failed to search GitHub issues: ${error}`);
+      throw new Error(`Failed to search GitHub issues in ${repository}: ${error}`);
     }
   }
 
   /**
    * Get detailed information for a specific issue
    */
-  async getIssueDetails(issueNumber: number): Promise<GitHubIssue> {
+  async getIssueDetails(issueNumber: number, repository: string = this.repos[0]): Promise<GitHubIssue> {
     try {
-      const response = await this.octokit.rest.issues.get({
-        owner: this.REPO_OWNER,
-        repo: this.REPO_NAME,
-        issue_number: issueNumber,
-      });
+      const response = await this.request(`GitHub issue ${repository}#${issueNumber}`, () =>
+        this.octokit.rest.issues.get({
+          ...parseRepository(repository),
+          issue_number: issueNumber,
+        })
+      );
 
-      return this.transformIssue(response.data);
+      return this.transformIssue(response.data, repository);
     } catch (error) {
-      console.error(`Error fetching issue #${issueNumber}:`, error);
       throw new Error(`Failed to fetch issue #${issueNumber}: ${error}`);
     }
   }
 
   /**
-   * Build search queries for finding component-related issues
+   * Get the comment thread of an issue, capped to roughly `tokenBudget` tokens.
+   * Maintainer comments are kept first, then the most recent ones; the result is chronological.
+   */
+  async getIssueComments(repository: string, issueNumber: number, tokenBudget: number): Promise<GitHubComment[]> {
+    try {
+      const comments: GitHubComment[] = [];
+
+      for (let page = 1; page <= this.COMMENT_PAGE_LIMIT; page++) {
+        const response = await this.request(`GitHub comments for ${repository}#${issueNumber}`, () =>
+          this.octokit.rest.issues.listComments({
+            ...parseRepository(repository),
+            issue_number: issueNumber,
+            per_page: 100,
+            page,
+          })
+        );
+
+        comments.push(...response.data.map((item) => this.transformComment(item)));
+
+        if (response.data.length < 100) {
+          break;
+        }
+      }
+
+      return this.capCommentsToBudget(comments, tokenBudget);
+    } catch (error) {
+      throw new Error(`Failed to fetch comments for issue #${issueNumber}: ${error}`);
+    }
+  }
+
+  /**
+   * Get the pull requests linked to an issue from its timeline: pull requests that reference it
+   * (`cross-referenced`) or were linked in the sidebar (`connected`). Closed pull requests
+   * without a merge date in the event are looked up to tell merged from abandoned ones.
+   */
+  async getLinkedPullRequests(repository: string, issueNumber: number): Promise<LinkedPullRequest[]> {
+    try {
+      const pullRequests = new Map<string, LinkedPullRequest>();
+      const unknownMergeState = new Set<string>();
+
+      for (let page = 1; page <= this.TIMELINE_PAGE_LIMIT; page++) {
+        const response = await this.request(`GitHub timeline for ${repository}#${issueNumber}`, () =>
+          this.octokit.rest.issues.listEventsForTimeline({
+            ...parseRepository(repository),
+            issue_number: issueNumber,
+            per_page: 100,
+            page,
+          })
+        );
+
+        response.data
+          .filter((event: any) => this.LINKING_EVENTS.includes(event.event) && event.source?.issue?.pull_request)
+          .forEach((event: any) => {
+            const pullRequest = this.transformLinkedPullRequest(event.source.issue, repository);
+            const key = `${pullRequest.repository}#${pullRequest.number}`;
+            pullRequests.set(key, pullRequest);
+            if (event.source.issue.pull_request.merged_at === undefined) {
+              unknownMergeState.add(key);
+            }
+          });
+
+        if (response.data.length < 100) {
+          break;
+        }
+      }
+
+      return await Promise.all(
+        [...pullRequests.entries()].map(([key, pullRequest]) =>
+          pullRequest.state === 'closed' && unknownMergeState.has(key)
+            ? this.resolveMergeState(pullRequest)
+            : pullRequest
+        )
+      );
+    } catch (error) {
+      throw new Error(`Failed to fetch linked pull requests for issue #${issueNumber}: ${error}`);
+    }
+  }
+
+  /**
+   * Check whether a closed pull request was merged when the timeline event didn't say
+   */
+  private async resolveMergeState(pullRequest: LinkedPullRequest): Promise<LinkedPullRequest> {
+    const response = await this.request(`GitHub pull request ${pullRequest.repository}#${pullRequest.number}`, () =>
+      this.octokit.rest.pulls.get({
+        ...parseRepository(pullRequest.repository),
+        pull_number: pullRequest.number,
+      })
+    );
+
+    return response.data.merged_at
+      ? { ...pullRequest, state: 'merged', merged_at: response.data.merged_at }
+      : pullRequest;
+  }
+
+  /**
+   * Select comments that fit the token budget, estimated at 4 characters per token
+   */
+  private capCommentsToBudget(comments: GitHubComment[], tokenBudget: number): GitHubComment[] {
+    const maxCommentChars = 2000;
+    let remainingChars = tokenBudget * 4;
+
+    const prioritized = [
+      ...comments.filter((comment) => comment.is_maintainer),
+      ...comments.filter((comment) => !comment.is_maintainer).reverse(),
+    ];
+
+    const selected: GitHubComment[] = [];
+    for (const comment of prioritized) {
+      const body =
+        comment.body.length > maxCommentChars ? `${comment.body.slice(0, maxCommentChars)}… [truncated]` : comment.body;
+      if (body.length > remainingChars) {
+        continue;
+      }
+      remainingChars -= body.length;
+      selected.push({ ...comment, body });
+    }
+
+    return selected.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  /**
+   * Format a timestamp as the search API documents it, `YYYY-MM-DDTHH:MM:SS+00:00`, without the
+   * milliseconds of `toISOString()`
    */
-  private buildSearchQueries(componentName: string, state: string): string[] {
-    const baseQuery = `repo:${this.REPO_OWNER}/${this.REPO_NAME} is:issue state:${state}`;
+  private formatSearchDate(timestamp: string): string {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? timestamp : date.toISOString().replace(/\.\d{3}Z$/, '+00:00');
+  }
+
+  /**
+   * Build search queries for finding component-related issues. Aliases get the name queries,
+   * keywords are paired with the component name like the built-in bug terms, and excluded terms
+   * and labels are negated in every query.
+   */
+  private buildSearchQueries(
+    repository: string,
+    componentName: string,
+    state: 'open' | 'closed' | 'all',
+    filters: IssueSearchOptions = {}
+  ): string[] {
+    // The search API has no `state:all` qualifier; omitting `state:` matches both
+    const stateQualifier = state === 'all' ? '' : ` state:${state}`;
+    const exclusions = [
+      ...(filters.excludeTerms || []).map((term) => ` -"${term}"`),
+      ...(filters.excludeLabels || []).map((label) => ` -label:"${label}"`),
+    ].join('');
+    const updatedQualifier = filters.updatedSince ? ` updated:>${this.formatSearchDate(filters.updatedSince)}` : '';
+    const baseQuery = `repo:${repository} is:issue${stateQualifier}${updatedQualifier}${exclusions}`;
 
     const queries = [
       // Direct component name mentions
@@ -117,13 +375,19 @@ export class GitHubService {
       `${baseQuery} "${componentName}" "a11y"`,
     ];
 
-    return queries;
+    (filters.aliases || []).forEach((alias) => {
+      queries.push(`${baseQuery} "${alias}" in:title`, `${baseQuery} "${alias}" in:body`);
+    });
+    (filters.keywords || []).forEach((keyword) => queries.push(`${baseQuery} "${componentName}" "${keyword}"`));
+
+    // Variations collapse into the same query for names that are already kebab-case
+    return [...new Set(queries)];
   }
 
   /**
    * Transform GitHub API response to our internal format
    */
-  private transformIssue(item: any): GitHubIssue {
+  private transformIssue(item: any, repository: string): GitHubIssue {
     return {
       id: item.id,
       number: item.number,
@@ -148,6 +412,39 @@ export class GitHubService {
         avatar_url: assignee.avatar_url,
       })),
       comments: item.comments,
+      repository,
+    };
+  }
+
+  /**
+   * Transform the pull request of a timeline event
+   */
+  private transformLinkedPullRequest(item: any, issueRepository: string): LinkedPullRequest {
+    const repository = item.repository?.full_name ?? issueRepository;
+    const mergedAt = item.pull_request.merged_at;
+    return {
+      repository,
+      number: item.number,
+      title: item.title,
+      html_url: item.html_url,
+      state: mergedAt ? 'merged' : item.state === 'open' ? 'open' : 'closed',
+      merged_at: mergedAt ?? undefined,
+    };
+  }
+
+  /**
+   * Transform GitHub comment response to our internal format
+   */
+  private transformComment(item: any): GitHubComment {
+    return {
+      id: item.id,
+      user: {
+        login: item.user?.login ?? 'ghost',
+      },
+      body: item.body || '',
+      created_at: item.created_at,
+      author_association: item.author_association,
+      is_maintainer: this.MAINTAINER_ASSOCIATIONS.includes(item.author_association),
     };
   }
 
@@ -167,9 +464,13 @@ export class GitHubService {
   async getRateLimit() {
     try {
       const response = await this.octokit.rest.rateLimit.get();
-      return response.data.rate;
+      const { rate } = response.data;
+      if (rate.remaining === 0) {
+        this.scheduler.pauseUntil('github', rate.reset * 1000 + 1000, 'GitHub rate limit used up');
+      }
+      return rate;
     } catch (error) {
-      console.error('Error getting rate limit:', error);
+      this.logger.debug(`Error getting rate limit: ${error}`);
       return null;
     }
   }
@@ -0,0 +1,459 @@
+import { createHash } from 'crypto';
+import {
+  ComponentSummary,
+  GitHubIssue,
+  IssueAnalysis,
+  IssueWorkaround,
+  LLMProvider,
+  OpenAIIssueAnalysisRequest,
+  PromptTemplateRef,
+} from '../types';
+import { issueKey } from '../utils/issues';
+import { Severity, severityRank } from '../utils/severity';
+
+interface SeverityRule {
+  severity: Severity;
+  functionality: string;
+  patterns: RegExp[];
+}
+
+/**
+ * Keyword rules mirroring the severity criteria given to the hosted models.
+ * Rules are checked from most to least severe; the first severity with a match wins.
+ */
+const SEVERITY_RULES: SeverityRule[] = [
+  {
+    severity: 'critical',
+    functionality: 'rendering',
+    patterns: [
+      /\b(does ?n[o']t|not|never|fails? to|won'?t) (render|show|display|mount|open)/i,
+      /\bblank (page|screen)\b/i,
+    ],
+  },
+  {
+    severity: 'critical',
+    functionality: 'stability',
+    patterns: [/\bcrash(es|ed|ing)?\b/i, /\buncaught\b/i, /\binfinite (loop|re-?render)/i, /\bfreez(e|es|ing)\b/i],
+  },
+  {
+    severity: 'critical',
+    functionality: 'core functionality',
+    patterns: [/\b(completely|totally) (broken|unusable)\b/i, /\bunusable\b/i, /\bcannot be used\b/i],
+  },
+  {
+    severity: 'critical',
+    functionality: 'security',
+    patterns: [/\bsecurity\b/i, /\bxss\b/i, /\bvulnerab/i, /\binjection\b/i],
+  },
+  {
+    severity: 'critical',
+    functionality: 'accessibility',
+    patterns: [/\bscreen ?reader\b.*\b(can'?t|cannot|unable)\b/i, /\bkeyboard\b.*\b(trap|inaccessible|unreachable)\b/i],
+  },
+  {
+    severity: 'high',
+    functionality: 'performance',
+    patterns: [/\bslow\b/i, /\bperformance\b/i, /\blag(gy|s)?\b/i, /\bmemory leak\b/i, /\bjank\b/i],
+  },
+  {
+    severity: 'high',
+    functionality: 'core functionality',
+    patterns: [
+      /\bnot working\b/i,
+      /\bbroken\b/i,
+      /\bregression\b/i,
+      /\bhydration\b/i,
+      /\b(does ?n[o']t|not) (work|close|submit|update|trigger|fire)\b/i,
+    ],
+  },
+  {
+    severity: 'high',
+    functionality: 'accessibility',
+    patterns: [/\baccessibility\b/i, /\ba11y\b/i, /\baria-/i, /\bfocus\b/i],
+  },
+  {
+    severity: 'medium',
+    functionality: 'styling',
+    patterns: [/\bstyl(e|es|ing)\b/i, /\bcss\b/i, /\btailwind\b/i, /\balign(ed|ment)?\b/i, /\boverflow\b/i, /\bdark mode\b/i],
+  },
+  {
+    severity: 'medium',
+    functionality: 'edge cases',
+    patterns: [/\bedge case\b/i, /\bwhen\b.*\b(only|sometimes)\b/i, /\bworkaround\b/i],
+  },
+  {
+    severity: 'low',
+    functionality: 'enhancement',
+    patterns: [/^\s*\[?feat/i, /\bfeature request\b/i, /\b(would be nice|proposal|suggestion|support for)\b/i],
+  },
+  {
+    severity: 'low',
+    functionality: 'documentation',
+    patterns: [/\b(docs?|documentation|typo|readme)\b/i],
+  },
+];
+
+/**
+ * Labels that override keyword matching, since maintainers applied them deliberately
+ */
+const LABEL_SEVERITY: Record<string, Severity> = {
+  security: 'critical',
+  regression: 'high',
+  performance: 'high',
+  bug: 'medium',
+  accessibility: 'high',
+  a11y: 'high',
+  enhancement: 'low',
+  feature: 'low',
+  'feature request': 'low',
+  documentation: 'low',
+  docs: 'low',
+  question: 'low',
+};
+
+/**
+ * Comment phrases showing another user hit the same problem
+ */
+const CONFIRMATION_PATTERNS: RegExp[] = [
+  /^\s*\+1\b/,
+  /\bsame (issue|problem|here|for me)\b/i,
+  /\b(also|still) (happening|seeing|having|facing|getting)\b/i,
+  /\bcan (confirm|reproduce)\b/i,
+];
+
+/**
+ * Comment phrases mentioning a fix, pull request or fixed version
+ */
+const FIX_PATTERNS: RegExp[] = [
+  /\bfixed (in|by|with)\b/i,
+  /\b(has been|was|got) (fixed|resolved)\b/i,
+  /\b(fix|patch)(es)? (is )?(merged|released|landed)\b/i,
+  /\b(pr|pull request) #?\d+/i,
+  /\bresolved in\b/i,
+];
+
+/**
+ * Phrases introducing a workaround in the issue body or a comment
+ */
+const WORKAROUND_PATTERNS: RegExp[] = [
+  /\bwork-?arounds?\b/i,
+  /\btemporary (fix|solution)\b/i,
+  /\bin the meantime\b/i,
+  /\b(fixed|solved|resolved) (it|this) by\b/i,
+  /\bwhat worked for me\b/i,
+];
+
+/**
+ * Phrases pinning or downgrading a dependency to a version that works
+ */
+const VERSION_PIN_PATTERN =
+  /\b(?:downgrad(?:e|ed|ing)|pin(?:ned|ning)?|revert(?:ed|ing)? to|roll(?:ed|ing)? back to)\b[^.\n]*?v?\d+\.\d+\.\d+/i;
+
+/**
+ * Release that fixed the issue, e.g. "fixed in v2.1.3"
+ */
+const FIX_VERSION_PATTERN =
+  /\b(?:fixed|resolved|released|landed) in (?:version |release )?v?(\d+\.\d+\.\d+(?:-[\w.]+)?)/i;
+
+/**
+ * Commit or pull request that fixed the issue, e.g. "fixed by #1234" or "fixed in a1b2c3d"
+ */
+const FIX_COMMIT_PATTERN =
+  /\b(?:fixed|resolved|closed) (?:in|by|with) (?:commit )?(#\d+|[0-9a-f]{7,40}\b|https:\/\/\S+)/i;
+
+/**
+ * Relevance scores for where an issue mentions the component, strongest first
+ */
+const RELEVANCE_SCORES = {
+  title: 90,
+  label: 80,
+  code: 70,
+  repeated: 55,
+  passing: 25,
+  absent: 10,
+};
+
+/**
+ * Deterministic, offline issue classifier. It needs no network access or API key, which
+ * makes it suitable for machines that must not send issue text to a third party and for
+ * fast, free CI runs. Results are rougher than a model's, so confidence is capped.
+ */
+export class HeuristicService implements LLMProvider {
+  readonly name: string = 'heuristic classifier';
+  readonly modelName: string = 'heuristic';
+
+  /**
+   * The rule set stands in for a prompt template: prompt templates don't apply to it, and its
+   * hash invalidates cached classifications when the rules change
+   */
+  getPromptTemplate(): PromptTemplateRef {
+    const rules = JSON.stringify({
+      rules: SEVERITY_RULES.map((rule) => ({ ...rule, patterns: rule.patterns.map(String) })),
+      labels: LABEL_SEVERITY,
+      discussion: [...CONFIRMATION_PATTERNS, ...FIX_PATTERNS].map(String),
+      relevance: RELEVANCE_SCORES,
+      fixes: [...WORKAROUND_PATTERNS, VERSION_PIN_PATTERN, FIX_VERSION_PATTERN, FIX_COMMIT_PATTERN].map(String),
+    });
+    return { name: 'heuristic-rules', hash: createHash('sha256').update(rules).digest('hex').slice(0, 12) };
+  }
+
+  /**
+   * Classify a single issue from its labels and keywords
+   */
+  async analyzeIssue(request: OpenAIIssueAnalysisRequest): Promise<IssueAnalysis> {
+    const rules = this.getPromptTemplate();
+    const text = `${request.issue_title}\n${request.issue_body}`;
+    const titleText = request.issue_title;
+
+    const matchedRules = SEVERITY_RULES.filter((rule) => rule.patterns.some((pattern) => pattern.test(text)));
+    const titleMatches = SEVERITY_RULES.filter((rule) => rule.patterns.some((pattern) => pattern.test(titleText)));
+
+    const labelSeverities = request.issue_labels
+      .map((label) => LABEL_SEVERITY[label.toLowerCase()])
+      .filter((severity): severity is Severity => severity !== undefined);
+
+    let severity: Severity = matchedRules[0]?.severity ?? 'medium';
+
+    // Enhancement and documentation labels cap the severity; other labels can only raise it
+    const labelFloor = this.maxSeverity(labelSeverities.filter((s) => s !== 'low'));
+    if (labelSeverities.includes('low') && labelFloor === undefined) {
+      severity = 'low';
+    } else if (labelFloor && severityRank(labelFloor) > severityRank(severity)) {
+      severity = labelFloor;
+    }
+
+    // A critical keyword buried in a long body is weaker evidence than one in the title
+    if (severity === 'critical' && !titleMatches.some((rule) => rule.severity === 'critical')) {
+      const criticalHits = matchedRules.filter((rule) => rule.severity === 'critical').length;
+      if (criticalHits < 2 && !labelSeverities.includes('critical')) {
+        severity = 'high';
+      }
+    }
+
+    const affected = [...new Set(matchedRules.map((rule) => rule.functionality))];
+    const reasons = matchedRules
+      .filter((rule) => rule.severity === severity)
+      .map((rule) => rule.functionality);
+
+    const signals = matchedRules.length + labelSeverities.length + titleMatches.length;
+    const confidence = Math.min(75, 30 + signals * 10);
+
+    return {
+      issue_id: parseInt(request.issue_url.split('/').pop() || '0'),
+      is_critical: severity === 'critical',
+      severity_level: severity,
+      reasoning: this.buildReasoning(severity, reasons, request.issue_labels),
+      affected_functionality: affected.length > 0 ? affected : ['general'],
+      impact_description: this.describeImpact(severity, request.component_name),
+      confidence_score: confidence,
+      ...this.analyzeDiscussion(request),
+      ...this.assessRelevance(request),
+      ...this.extractFixes(request),
+      analysis_status: 'ok',
+      prompt_template: rules.name,
+      prompt_hash: rules.hash,
+    };
+  }
+
+  /**
+   * Derive discussion facts from the comment thread
+   */
+  private analyzeDiscussion(
+    request: OpenAIIssueAnalysisRequest
+  ): Pick<IssueAnalysis, 'maintainer_responded' | 'confirmed_by_others' | 'fix_mentioned'> {
+    const comments = request.issue_comments || [];
+    const others = comments.filter((comment) => !comment.is_maintainer && comment.user.login !== request.issue_author);
+
+    return {
+      maintainer_responded: comments.some((comment) => comment.is_maintainer),
+      confirmed_by_others: others.some((comment) => CONFIRMATION_PATTERNS.some((pattern) => pattern.test(comment.body))),
+      fix_mentioned: comments.some((comment) => FIX_PATTERNS.some((pattern) => pattern.test(comment.body))),
+    };
+  }
+
+  /**
+   * Score how much the issue is about the component from where its name appears: the title,
+   * a label, code (an import or JSX tag), or only the body text
+   */
+  private assessRelevance(
+    request: OpenAIIssueAnalysisRequest
+  ): Pick<IssueAnalysis, 'relevance_score' | 'relevance_reason'> {
+    const name = request.component_name.toLowerCase();
+    const words = name.split(/[-\s]+/).map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    // "date-picker" also matches "date picker", "DatePicker" and "date_picker"
+    const mention = `\\b${words.join('[-_\\s]?')}s?\\b`;
+    const pascalCase = words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+    const code = new RegExp(`components/ui/${words.join('-')}\\b|<${pascalCase}[\\s>/.]|react-${words.join('-')}\\b`);
+
+    const score = (key: keyof typeof RELEVANCE_SCORES, reason: string) => ({
+      relevance_score: RELEVANCE_SCORES[key],
+      relevance_reason: reason,
+    });
+
+    if (new RegExp(mention, 'i').test(request.issue_title)) {
+      return score('title', `The title mentions ${name}`);
+    }
+    if (request.issue_labels.some((label) => new RegExp(mention, 'i').test(label))) {
+      return score('label', `A label names ${name}`);
+    }
+    if (code.test(request.issue_body)) {
+      return score('code', `The code in the issue uses ${name}`);
+    }
+
+    const mentions = (request.issue_body.match(new RegExp(mention, 'gi')) || []).length;
+    if (mentions >= 3) {
+      return score('repeated', `The body mentions ${name} ${mentions} times`);
+    }
+    if (mentions > 0) {
+      return score('passing', `${name} is only mentioned in passing in the body`);
+    }
+    return score('absent', `The issue does not mention ${name}`);
+  }
+
+  /**
+   * Collect workarounds, fix versions and fix commits stated in the issue body and comments.
+   * A workaround's snippet is the first code block of the text that introduces it.
+   */
+  private extractFixes(
+    request: OpenAIIssueAnalysisRequest
+  ): Pick<IssueAnalysis, 'workarounds' | 'fix_version' | 'fix_commit'> {
+    const texts = [
+      { source: 'issue body', body: request.issue_body },
+      ...(request.issue_comments || []).map((comment) => ({ source: `@${comment.user.login}`, body: comment.body })),
+    ];
+
+    const workarounds: IssueWorkaround[] = [];
+    texts.forEach(({ source, body }) => {
+      const pin = body.match(VERSION_PIN_PATTERN);
+      if (pin) {
+        workarounds.push({ type: 'version_pin', description: this.sentenceAround(body, pin.index!), source });
+        return;
+      }
+
+      const intro = WORKAROUND_PATTERNS.map((pattern) => body.match(pattern)).find((match) => match);
+      if (!intro) {
+        return;
+      }
+
+      const code = body.slice(intro.index!).match(/```(\w*)\n([\s\S]*?)```/);
+      const language = code?.[1].toLowerCase() || '';
+      workarounds.push({
+        type: !code ? 'other' : ['css', 'scss', 'less'].includes(language) ? 'css' : 'code',
+        description: this.sentenceAround(body, intro.index!),
+        snippet: code?.[2].trim(),
+        source,
+      });
+    });
+
+    const allText = texts.map(({ body }) => body).join('\n');
+    return {
+      workarounds,
+      fix_version: allText.match(FIX_VERSION_PATTERN)?.[1],
+      fix_commit: allText.match(FIX_COMMIT_PATTERN)?.[1],
+    };
+  }
+
+  /**
+   * The sentence containing a position, shortened for display
+   */
+  private sentenceAround(text: string, index: number): string {
+    const start = Math.max(text.lastIndexOf('.', index), text.lastIndexOf('\n', index)) + 1;
+    const ends = [text.indexOf('. ', index), text.indexOf('\n', index)].filter((end) => end !== -1);
+    const end = ends.length > 0 ? Math.min(...ends) + 1 : text.length;
+    const sentence = text.slice(start, end).trim();
+    return sentence.length > 200 ? `${sentence.slice(0, 197)}...` : sentence;
+  }
+
+  /**
+   * Classify multiple issues. No rate limits apply, so this is a simple loop.
+   */
+  async analyzeIssuesBatch(requests: OpenAIIssueAnalysisRequest[]): Promise<IssueAnalysis[]> {
+    const results: IssueAnalysis[] = [];
+    for (const request of requests) {
+      results.push(await this.analyzeIssue(request));
+    }
+    return results;
+  }
+
+  /**
+   * Build a summary from the classified issues without free-form generation
+   */
+  async generateComponentSummary(
+    componentName: string,
+    analyses: Array<{ analysis: IssueAnalysis; github_issue: GitHubIssue }>
+  ): Promise<ComponentSummary> {
+    const ranked = [...analyses].sort(
+      (a, b) =>
+        severityRank(b.analysis.severity_level) - severityRank(a.analysis.severity_level) ||
+        b.analysis.confidence_score - a.analysis.confidence_score
+    );
+    const mostCritical = ranked
+      .filter((a) => a.analysis.severity_level === 'critical' || a.analysis.severity_level === 'high')
+      .slice(0, 5)
+      .map((a) => `${issueKey(a.github_issue)}: ${a.github_issue.title}`);
+
+    const areaCounts = new Map<string, number>();
+    analyses.forEach((a) => {
+      a.analysis.affected_functionality.forEach((area) => {
+        areaCounts.set(area, (areaCounts.get(area) || 0) + 1);
+      });
+    });
+    const commonProblems = [...areaCounts.entries()]
+      .filter(([area]) => area !== 'general')
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([area, count]) => `${area} (${count} issues)`);
+
+    const recommendedActions: string[] = [];
+    if (mostCritical.length > 0) {
+      recommendedActions.push(`Review the critical and high priority ${componentName} issues before upgrading`);
+    }
+    if (areaCounts.has('performance')) {
+      recommendedActions.push(`Profile ${componentName} in your app for the reported performance problems`);
+    }
+    if (areaCounts.has('accessibility')) {
+      recommendedActions.push(`Test ${componentName} with keyboard navigation and a screen reader`);
+    }
+    recommendedActions.push('Classifications are keyword-based; verify them manually or re-run with a model');
+
+    return {
+      most_critical_issues: mostCritical,
+      common_problems: commonProblems,
+      recommended_actions: recommendedActions,
+    };
+  }
+
+  private buildReasoning(severity: Severity, reasons: string[], labels: string[]): string {
+    const parts: string[] = [];
+    if (reasons.length > 0) {
+      parts.push(`Keywords indicate problems with ${reasons.join(', ')}.`);
+    } else {
+      parts.push('No strong severity keywords found.');
+    }
+    if (labels.length > 0) {
+      parts.push(`Labels: ${labels.join(', ')}.`);
+    }
+    parts.push(`Classified as ${severity} by the offline heuristic classifier.`);
+    return parts.join(' ');
+  }
+
+  private describeImpact(severity: Severity, componentName: string): string {
+    switch (severity) {
+      case 'critical':
+        return `May prevent the ${componentName} component from being used at all`;
+      case 'high':
+        return `Significantly impacts ${componentName} functionality`;
+      case 'medium':
+        return `Affects less common ${componentName} use cases or its appearance`;
+      default:
+        return `Minimal impact on ${componentName} functionality`;
+    }
+  }
+
+  private maxSeverity(severities: Severity[]): Severity | undefined {
+    return severities.reduce<Severity | undefined>(
+      (max, s) => (max === undefined || severityRank(s) > severityRank(max) ? s : max),
+      undefined
+    );
+  }
+}
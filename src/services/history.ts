@@ -0,0 +1,214 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  AnalyzerLogger,
+  ComponentAnalysisReport,
+  HistoryQuery,
+  HistoryRecord,
+  IssueHistory,
+} from '../types';
+import { issueKey, issueRepository } from '../utils/issues';
+import { Logger } from '../utils/logger';
+import { analysisFailed, effectiveSeverity } from '../utils/severity';
+
+/**
+ * Append-only store of every analysis in every saved report, one JSON record per line. It keeps
+ * each run's analyses in one place, so severities can be followed across runs, models and
+ * components.
+ */
+export class HistoryStore {
+  constructor(
+    private readonly historyPath: string,
+    private readonly logger: AnalyzerLogger = new Logger()
+  ) {}
+
+  /**
+   * Append the analyses of a report, or only those of the issues in `issueKeys`, such as the ones
+   * an incremental update re-analyzed. Returns the number of records written.
+   */
+  record(report: ComponentAnalysisReport, issueKeys?: Set<string>): number {
+    const recordedAt = new Date().toISOString();
+    const runId = this.buildRunId(report);
+    const records: HistoryRecord[] = report.issues
+      .filter((item) => !issueKeys || issueKeys.has(issueKey(item.github_issue)))
+      .map(({ github_issue: issue, analysis, possibly_unrelated }) => ({
+        run_id: runId,
+        recorded_at: recordedAt,
+        component_name: report.component_name,
+        analysis_date: report.analysis_date,
+        model: report.model,
+        prompt_template: report.prompt_template,
+        prompt_hash: report.prompt_hash,
+        repository: issueRepository(issue),
+        number: issue.number,
+        title: issue.title,
+        html_url: issue.html_url,
+        state: issue.state,
+        created_at: issue.created_at,
+        updated_at: issue.updated_at,
+        labels: issue.labels.map((label) => label.name),
+        severity: effectiveSeverity(analysis),
+        possibly_unrelated,
+        analysis,
+      }));
+
+    if (records.length === 0) {
+      return 0;
+    }
+
+    try {
+      const dir = path.dirname(this.historyPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      // Start on a new line if a previous write was cut short
+      const separator = this.endsWithNewline() ? '' : '\n';
+      const lines = records.map((record) => `${JSON.stringify(record)}\n`).join('');
+      fs.appendFileSync(this.historyPath, separator + lines, 'utf-8');
+      return records.length;
+    } catch (error) {
+      throw new Error(`Failed to append to analysis history: ${error}`);
+    }
+  }
+
+  /**
+   * Record reports saved before the history existed. Reports already in the history are skipped.
+   * Returns the number of reports imported.
+   */
+  importReports(reports: ComponentAnalysisReport[]): number {
+    const recorded = new Set(this.load().map((record) => record.run_id));
+    const missing = reports.filter((report) => !recorded.has(this.buildRunId(report)));
+    missing.forEach((report) => this.record(report));
+    return missing.length;
+  }
+
+  /**
+   * Read every record, oldest first. Unreadable lines, such as one cut short by a crash, are skipped.
+   */
+  load(): HistoryRecord[] {
+    if (!fs.existsSync(this.historyPath)) {
+      return [];
+    }
+
+    let content: string;
+    try {
+      content = fs.readFileSync(this.historyPath, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to read analysis history: ${error}`);
+    }
+
+    const records: HistoryRecord[] = [];
+    content.split('\n').forEach((line, index) => {
+      if (line.trim().length === 0) {
+        return;
+      }
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        this.logger.warning(`Skipping unreadable line ${index + 1} of ${this.historyPath}`);
+      }
+    });
+    return records;
+  }
+
+  /**
+   * Find issues matching a query, with their severity in each run. Results are per component,
+   * since an issue found under several components is analyzed for each of them, and sorted by
+   * latest severity, then by the number of severity changes.
+   */
+  query(query: HistoryQuery = {}): IssueHistory[] {
+    const components = query.components?.map((component) => component.toLowerCase());
+    const byIssue = new Map<string, HistoryRecord[]>();
+
+    this.load()
+      .filter((record) => !components || components.includes(record.component_name.toLowerCase()))
+      .filter((record) => !query.model || record.model === query.model)
+      .sort((a, b) => a.analysis_date.localeCompare(b.analysis_date))
+      .forEach((record) => {
+        const key = `${record.component_name}:${record.repository}#${record.number}`;
+        const records = byIssue.get(key) || [];
+        records.push(record);
+        byIssue.set(key, records);
+      });
+
+    const severityOrder = ['critical', 'high', 'medium', 'low', undefined];
+    return [...byIssue.values()]
+      .map((records) => this.summarize(records))
+      .filter(
+        (issue) =>
+          !query.severities ||
+          (issue.severity !== undefined && !issue.possibly_unrelated && query.severities.includes(issue.severity))
+      )
+      .filter((issue) => !query.openedSince || issue.created_at >= query.openedSince)
+      .filter((issue) => !query.state || issue.state === query.state)
+      .filter((issue) => query.minSeverityChanges === undefined || issue.severity_changes >= query.minSeverityChanges)
+      .filter((issue) => !query.label || issue.labels.includes(query.label))
+      .sort(
+        (a, b) =>
+          severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity) ||
+          b.severity_changes - a.severity_changes ||
+          b.created_at.localeCompare(a.created_at)
+      );
+  }
+
+  /**
+   * Follow one issue's records: the latest record gives its current details, failed analyses
+   * are left out of the severity timeline, and a run recorded twice counts once
+   */
+  private summarize(records: HistoryRecord[]): IssueHistory {
+    const latest = records[records.length - 1];
+    const runs = new Map<string, HistoryRecord>();
+    records.filter((record) => !analysisFailed(record.analysis)).forEach((record) => runs.set(record.run_id, record));
+
+    const timeline = [...runs.values()].map((record) => ({
+      analysis_date: record.analysis_date,
+      severity: record.severity,
+      model: record.model,
+    }));
+    const severityChanges = timeline.filter(
+      (entry, index) => index > 0 && entry.severity !== timeline[index - 1].severity
+    ).length;
+    const lastAnalyzed = [...runs.values()].pop();
+
+    return {
+      component_name: latest.component_name,
+      repository: latest.repository,
+      number: latest.number,
+      title: latest.title,
+      html_url: latest.html_url,
+      state: latest.state,
+      created_at: latest.created_at,
+      labels: latest.labels,
+      severity: lastAnalyzed?.severity,
+      possibly_unrelated: lastAnalyzed?.possibly_unrelated,
+      severity_changes: severityChanges,
+      runs: timeline.length,
+      timeline,
+    };
+  }
+
+  private endsWithNewline(): boolean {
+    if (!fs.existsSync(this.historyPath)) {
+      return true;
+    }
+
+    const { size } = fs.statSync(this.historyPath);
+    if (size === 0) {
+      return true;
+    }
+
+    const fd = fs.openSync(this.historyPath, 'r');
+    try {
+      const last = Buffer.alloc(1);
+      fs.readSync(fd, last, 0, 1, size - 1);
+      return last.toString() === '\n';
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  private buildRunId(report: ComponentAnalysisReport): string {
+    return `${report.component_name}@${report.analysis_date}`;
+  }
+}
@@ -0,0 +1,509 @@
+import { ComponentAnalysisReport, ComponentHistory, GitHubIssue, IssueAnalysis } from '../types';
+import { issueKey, issueRepository } from '../utils/issues';
+import { analysisFailed, countsTowardSeverity, effectiveSeverity, severityRank } from '../utils/severity';
+import { formatUsage } from '../utils/usage';
+
+const SEVERITY_COLORS: Record<IssueAnalysis['severity_level'], string> = {
+  critical: '#dc2626',
+  high: '#ea580c',
+  medium: '#ca8a04',
+  low: '#16a34a',
+};
+
+const FAILED_COLOR = '#94a3b8';
+const UNRELATED_COLOR = '#a8a29e';
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 0; padding: 24px;
+    color: #0f172a; background: #f8fafc; line-height: 1.5; }
+  h1 { margin: 0 0 4px; }
+  h2 { margin: 32px 0 12px; }
+  a { color: #2563eb; text-decoration: none; }
+  a:hover { text-decoration: underline; }
+  .muted { color: #64748b; }
+  .cards { display: flex; flex-wrap: wrap; gap: 12px; margin-top: 16px; }
+  .card { background: #fff; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px 16px; min-width: 150px; }
+  .card .value { font-size: 28px; font-weight: 700; }
+  .filters { display: flex; flex-wrap: wrap; gap: 12px; align-items: center; margin-bottom: 12px; }
+  .filters label { font-size: 14px; }
+  .filters input, .filters select { margin-left: 4px; padding: 4px 6px; border: 1px solid #cbd5e1; border-radius: 4px; }
+  table { width: 100%; border-collapse: collapse; background: #fff; border: 1px solid #e2e8f0; }
+  th, td { text-align: left; padding: 8px 10px; border-bottom: 1px solid #e2e8f0; vertical-align: top; font-size: 14px; }
+  th { background: #f1f5f9; cursor: pointer; user-select: none; white-space: nowrap; }
+  th[data-dir="asc"]::after { content: " ▲"; }
+  th[data-dir="desc"]::after { content: " ▼"; }
+  summary { cursor: pointer; }
+  details .body { margin: 8px 0 0; padding: 8px 12px; background: #f8fafc; border-radius: 6px; }
+  details pre { padding: 8px; background: #f1f5f9; border-radius: 4px; overflow-x: auto; }
+  .badge { display: inline-block; padding: 1px 8px; border-radius: 999px; color: #fff; font-size: 12px; font-weight: 600;
+    text-transform: uppercase; }
+  .label { display: inline-block; padding: 0 6px; margin: 1px; border-radius: 4px; background: #e2e8f0; font-size: 12px; }
+  .summary ul { margin: 4px 0 16px; }
+  footer { margin-top: 32px; font-size: 12px; }
+`;
+
+const SCRIPT = `
+(function () {
+  var table = document.getElementById('issues');
+  var tbody = table.tBodies[0];
+  var rows = Array.prototype.slice.call(tbody.rows);
+  var controls = ['filter-severity', 'filter-state', 'filter-label', 'filter-confidence', 'filter-text'];
+
+  function applyFilters() {
+    var severity = document.getElementById('filter-severity').value;
+    var state = document.getElementById('filter-state').value;
+    var label = document.getElementById('filter-label').value;
+    var minConfidence = parseFloat(document.getElementById('filter-confidence').value) || 0;
+    var text = document.getElementById('filter-text').value.toLowerCase();
+    var visible = 0;
+
+    rows.forEach(function (row) {
+      var labels = row.getAttribute('data-labels').split('\\n');
+      var show =
+        (!severity || row.getAttribute('data-severity') === severity) &&
+        (!state || row.getAttribute('data-state') === state) &&
+        (!label || labels.indexOf(label) !== -1) &&
+        parseFloat(row.getAttribute('data-confidence')) >= minConfidence &&
+        (!text || row.textContent.toLowerCase().indexOf(text) !== -1);
+      row.style.display = show ? '' : 'none';
+      if (show) visible++;
+    });
+
+    document.getElementById('visible-count').textContent = visible + ' of ' + rows.length + ' issues';
+  }
+
+  controls.forEach(function (id) {
+    document.getElementById(id).addEventListener('input', applyFilters);
+  });
+
+  // Links such as ?severity=critical&state=open open the report filtered
+  var params = new URLSearchParams(window.location.search);
+  ['severity', 'state', 'label'].forEach(function (name) {
+    var select = document.getElementById('filter-' + name);
+    if (params.get(name) && select.querySelector('option[value="' + CSS.escape(params.get(name)) + '"]')) {
+      select.value = params.get(name);
+    }
+  });
+
+  Array.prototype.forEach.call(table.tHead.rows[0].cells, function (th, index) {
+    th.addEventListener('click', function () {
+      var dir = th.getAttribute('data-dir') === 'desc' ? 'asc' : 'desc';
+      Array.prototype.forEach.call(table.tHead.rows[0].cells, function (other) { other.removeAttribute('data-dir'); });
+      th.setAttribute('data-dir', dir);
+      var numeric = th.getAttribute('data-type') === 'number';
+
+      rows.sort(function (a, b) {
+        var x = a.cells[index].getAttribute('data-value');
+        var y = b.cells[index].getAttribute('data-value');
+        var cmp = numeric ? parseFloat(x) - parseFloat(y) : x.localeCompare(y);
+        return dir === 'asc' ? cmp : -cmp;
+      });
+      rows.forEach(function (row) { tbody.appendChild(row); });
+    });
+  });
+
+  applyFilters();
+})();
+`;
+
+/**
+ * Renders a component report as a single HTML page with inline styles and script,
+ * so it works offline and can be attached to a ticket as one file.
+ */
+export class HtmlReportRenderer {
+  /**
+   * Generate the HTML document for a component report. `backLink` adds a link above the title,
+   * for reports served by the dashboard.
+   */
+  render(report: ComponentAnalysisReport, backLink?: { href: string; label: string }): string {
+    const { component_name, analysis_date } = report;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${this.escape(component_name)} Component Analysis Report</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${backLink ? `<div><a href="${this.escape(backLink.href)}">← ${this.escape(backLink.label)}</a></div>` : ''}
+<h1>${this.escape(component_name)} Component Analysis Report</h1>
+<div class="muted">
+Generated on ${this.escape(new Date(analysis_date).toLocaleString())}${this.renderTemplate(report)}
+</div>
+${this.renderStats(report)}
+${this.renderClusters(report)}
+${this.renderIssueTable(report)}
+${this.renderSummary(report)}
+<footer class="muted">
+This report was generated automatically using GitHub API and OpenAI analysis.
+Last updated: ${this.escape(new Date(analysis_date).toISOString())}
+${report.usage ? `<br>Token usage: ${this.escape(formatUsage(report.usage))}` : ''}
+</footer>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Generate the dashboard start page listing the latest report of every component, in the given order
+   */
+  renderIndex(components: ComponentHistory[], outputDir: string): string {
+    const rows = components
+      .map(({ component_name: name, latest, history }) => {
+        const href = `/components/${encodeURIComponent(name)}`;
+        return `<tr>
+  <td><a href="${href}">${this.escape(name)}</a></td>
+  <td>${this.renderCount(latest.critical_issues, SEVERITY_COLORS.critical)}</td>
+  <td>${this.renderCount(latest.high_priority_issues, SEVERITY_COLORS.high)}</td>
+  <td>${latest.total_issues}</td>
+  <td><a href="${href}/reports/${latest.date}">${latest.date}</a></td>
+  <td>${history.length}</td>
+</tr>`;
+      })
+      .join('\n');
+
+    const body = `<h1>Component Issue Dashboard</h1>
+<div class="muted">${components.length} components with reports in ${this.escape(outputDir)} ·
+<a href="/api/components">JSON API</a></div>
+<h2>Components</h2>
+${
+  components.length > 0
+    ? `<table>
+<thead><tr>
+  <th>Component</th>
+  <th>Critical</th>
+  <th>High</th>
+  <th>Total</th>
+  <th>Latest report</th>
+  <th>Reports</th>
+</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`
+    : `<p>No reports yet. Run <code>shadcn-analyzer analyze &lt;component&gt;</code> to create one.</p>`
+}`;
+
+    return this.renderPage('Component Issue Dashboard', body);
+  }
+
+  /**
+   * Generate the page of a component's dated reports, newest first, with their counts
+   */
+  renderHistory({ component_name: name, history }: ComponentHistory): string {
+    const base = `/components/${encodeURIComponent(name)}`;
+    const newestFirst = [...history].reverse();
+    const rows = newestFirst
+      .map((entry, index) => {
+        const previous = newestFirst[index + 1];
+        const change = previous ? entry.critical_issues - previous.critical_issues : 0;
+        return `<tr>
+  <td><a href="${base}/reports/${entry.date}">${entry.date}</a></td>
+  <td>${this.renderCount(entry.critical_issues, SEVERITY_COLORS.critical)}${
+    change !== 0 ? ` <span class="muted">(${change > 0 ? '+' : ''}${change})</span>` : ''
+  }</td>
+  <td>${this.renderCount(entry.high_priority_issues, SEVERITY_COLORS.high)}</td>
+  <td>${entry.total_issues}</td>
+  <td>${entry.possibly_unrelated}</td>
+  <td class="muted">${this.escape(entry.prompt_template || '')}</td>
+</tr>`;
+      })
+      .join('\n');
+
+    const body = `<div><a href="/">← All components</a></div>
+<h1>${this.escape(name)} Report History</h1>
+<div class="muted">${history.length} reports · <a href="/api${base}">JSON API</a></div>
+<h2>Reports</h2>
+<table>
+<thead><tr>
+  <th>Date</th>
+  <th>Critical</th>
+  <th>High</th>
+  <th>Total</th>
+  <th>Possibly unrelated</th>
+  <th>Prompt template</th>
+</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+
+    return this.renderPage(`${name} Report History`, body);
+  }
+
+  /**
+   * Wrap a dashboard page body in the document shell shared with the reports
+   */
+  private renderPage(title: string, body: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${this.escape(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+  }
+
+  private renderCount(count: number, color: string): string {
+    return count > 0 ? `<strong style="color:${color}">${count}</strong>` : '0';
+  }
+
+  private renderTemplate(report: ComponentAnalysisReport): string {
+    if (!report.prompt_template) {
+      return '';
+    }
+    return ` · Prompt template ${this.escape(`${report.prompt_template} (${report.prompt_hash})`)}`;
+  }
+
+  private renderStats(report: ComponentAnalysisReport): string {
+    const { total_issues, critical_issues, high_priority_issues } = report;
+    const failed = report.issues.filter((item) => analysisFailed(item.analysis)).length;
+    const unrelated = report.issues.filter((item) => item.possibly_unrelated).length;
+    const mediumLow = total_issues - critical_issues - high_priority_issues - failed - unrelated;
+    const issues = report.issues.filter((item) => !analysisFailed(item.analysis));
+    const avgConfidence =
+      issues.length > 0 ? issues.reduce((sum, item) => sum + item.analysis.confidence_score, 0) / issues.length : 0;
+    const clusters = report.clusters || [];
+    const grouped = clusters.reduce((sum, cluster) => sum + cluster.issues.length, 0);
+
+    const card = (label: string, value: string | number, color?: string) =>
+      `<div class="card"><div class="muted">${label}</div><div class="value"${
+        color ? ` style="color:${color}"` : ''
+      }>${value}</div></div>`;
+
+    return `<div class="cards">
+${card('Total Issues', total_issues)}
+${card('Critical', critical_issues, SEVERITY_COLORS.critical)}
+${card('High Priority', high_priority_issues, SEVERITY_COLORS.high)}
+${card('Medium/Low', mediumLow, SEVERITY_COLORS.medium)}
+${failed > 0 ? card('Failed Analyses', failed, FAILED_COLOR) : ''}
+${unrelated > 0 ? card('Possibly Unrelated', unrelated, UNRELATED_COLOR) : ''}
+${clusters.length > 0 ? card('Distinct Problems', total_issues - grouped + clusters.length) : ''}
+${card('Avg. Confidence', `${avgConfidence.toFixed(1)}%`)}
+</div>`;
+  }
+
+  private renderClusters(report: ComponentAnalysisReport): string {
+    const clusters = report.clusters || [];
+    if (clusters.length === 0) {
+      return '';
+    }
+
+    const urls = new Map(report.issues.map((item) => [issueKey(item.github_issue), item.github_issue.html_url]));
+    const link = (key: string) =>
+      urls.has(key) ? `<a href="${this.escape(urls.get(key)!)}">${this.escape(key)}</a>` : this.escape(key);
+
+    const rows = clusters
+      .map(
+        (cluster) => `<tr>
+  <td>${cluster.cluster_id}</td>
+  <td>${link(cluster.canonical_issue)} ${this.escape(cluster.title)}</td>
+  <td>${cluster.issues.length}: ${cluster.issues.slice(1).map(link).join(', ')}</td>
+  <td><span class="badge" style="background:${SEVERITY_COLORS[cluster.highest_severity]}">${
+    cluster.highest_severity
+  }</span></td>
+  <td>${cluster.critical_issues}</td>
+  <td>${cluster.keywords.map((keyword) => `<span class="label">${this.escape(keyword)}</span>`).join('')}</td>
+</tr>`
+      )
+      .join('\n');
+
+    return `<h2>Problem Clusters</h2>
+<p class="muted">These issues appear to describe the same problem. Severity counts include every issue.</p>
+<table>
+<thead><tr>
+  <th>Cluster</th>
+  <th>Canonical issue</th>
+  <th>Issues</th>
+  <th>Highest severity</th>
+  <th>Critical</th>
+  <th>Shared terms</th>
+</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+  }
+
+  private renderIssueTable(report: ComponentAnalysisReport): string {
+    const labelNames = report.issues.flatMap((item) => item.github_issue.labels.map((label) => label.name));
+    const labels = [...new Set(labelNames)].sort();
+    const analysisTime = new Date(report.analysis_date).getTime();
+
+    // Failed analyses and possibly unrelated issues sort below low severity
+    const rank = (item: ComponentAnalysisReport['issues'][number]) =>
+      countsTowardSeverity(item) ? severityRank(effectiveSeverity(item.analysis)) : -1;
+    const sorted = [...report.issues].sort(
+      (a, b) => rank(b) - rank(a) || b.analysis.confidence_score - a.analysis.confidence_score
+    );
+
+    const rows = sorted.map((item) => this.renderIssueRow(item, analysisTime)).join('\n');
+
+    return `<h2>Issues</h2>
+<div class="filters">
+  <label>Severity<select id="filter-severity">
+    <option value="">All</option>
+    <option value="critical">Critical</option>
+    <option value="high">High</option>
+    <option value="medium">Medium</option>
+    <option value="low">Low</option>
+    <option value="failed">Failed analysis</option>
+    <option value="unrelated">Possibly unrelated</option>
+  </select></label>
+  <label>State<select id="filter-state">
+    <option value="">All</option>
+    <option value="open">Open</option>
+    <option value="closed">Closed</option>
+  </select></label>
+  <label>Label<select id="filter-label">
+    <option value="">All</option>
+    ${labels.map((label) => `<option value="${this.escape(label)}">${this.escape(label)}</option>`).join('\n    ')}
+  </select></label>
+  <label>Min. confidence<input id="filter-confidence" type="number" min="0" max="100" value="0" style="width:64px"></label>
+  <label>Search<input id="filter-text" type="search" placeholder="Title, reasoning..."></label>
+  <span id="visible-count" class="muted"></span>
+</div>
+<table id="issues">
+<thead><tr>
+  <th>Repository</th>
+  <th data-type="number">#</th>
+  <th>Issue</th>
+  <th data-type="number">Severity</th>
+  <th data-type="number">Confidence</th>
+  <th>Labels</th>
+  <th>State</th>
+  <th data-type="number">Age (days)</th>
+</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`;
+  }
+
+  /**
+   * Render the fix status, linked pull requests, fix and workarounds of an issue, with snippets
+   */
+  private renderFixes(issue: GitHubIssue, analysis: IssueAnalysis): string {
+    let html = '';
+    if (issue.fix_status) {
+      const pullRequests = (issue.linked_pull_requests || []).map((pullRequest) => {
+        const link = `<a href="${this.escape(pullRequest.html_url)}">${this.escape(issueKey(pullRequest))}</a>`;
+        return `${link} (${pullRequest.state})`;
+      });
+      html += `<p><strong>Fix status:</strong> ${issue.fix_status}${
+        pullRequests.length > 0 ? ` — ${pullRequests.join(', ')}` : ''
+      }</p>`;
+    }
+
+    const fix = [analysis.fix_version && `v${analysis.fix_version.replace(/^v/, '')}`, analysis.fix_commit];
+    if (fix.some(Boolean)) {
+      html += `<p><strong>Fixed in:</strong> ${this.escape(fix.filter(Boolean).join(' — '))}</p>`;
+    }
+
+    (analysis.workarounds || []).forEach((workaround) => {
+      html += `<p><strong>Workaround (${workaround.type.replace('_', ' ')}):</strong> `;
+      html += this.escape(workaround.description);
+      html += workaround.source ? ` <span class="muted">${this.escape(workaround.source)}</span></p>` : `</p>`;
+      if (workaround.snippet) {
+        html += `<pre><code>${this.escape(workaround.snippet)}</code></pre>`;
+      }
+    });
+
+    return html;
+  }
+
+  private renderIssueRow(item: ComponentAnalysisReport['issues'][number], analysisTime: number): string {
+    const { github_issue: issue, analysis, cluster_id: clusterId } = item;
+    const failed = analysisFailed(analysis);
+    const severity = effectiveSeverity(analysis);
+    const severityLabel = failed ? 'failed' : item.possibly_unrelated ? 'unrelated' : severity;
+    const badgeColor = failed ? FAILED_COLOR : item.possibly_unrelated ? UNRELATED_COLOR : SEVERITY_COLORS[severity];
+    const ageDays = Math.max(0, Math.floor((analysisTime - new Date(issue.created_at).getTime()) / 86400000));
+    const labelNames = issue.labels.map((label) => label.name);
+
+    let details = failed
+      ? `<p><strong>Analysis failed:</strong> ${this.escape(analysis.analysis_error || analysis.reasoning)}</p>`
+      : `<p><strong>Why ${severity}:</strong> ${this.escape(analysis.reasoning)}</p>`;
+    details = this.renderFixes(issue, analysis) + details;
+    details += `<p><strong>Impact:</strong> ${this.escape(analysis.impact_description)}</p>`;
+    if (analysis.affected_functionality.length > 0) {
+      details += `<p><strong>Affected functionality:</strong> ${analysis.affected_functionality
+        .map((func) => this.escape(func))
+        .join(', ')}</p>`;
+    }
+    if (analysis.maintainer_responded !== undefined) {
+      const facts = [
+        analysis.maintainer_responded ? 'Maintainer responded' : 'No maintainer response',
+        analysis.confirmed_by_others ? 'confirmed by others' : 'not confirmed by others',
+      ];
+      if (analysis.fix_mentioned) {
+        facts.push('fix mentioned');
+      }
+      details += `<p><strong>Discussion:</strong> ${facts.join(', ')}</p>`;
+    }
+    if (analysis.relevance_score !== undefined) {
+      details += `<p><strong>Relevance:</strong> ${analysis.relevance_score}${
+        analysis.relevance_reason ? ` — ${this.escape(analysis.relevance_reason)}` : ''
+      }</p>`;
+    }
+    if (clusterId !== undefined) {
+      details += `<p><strong>Problem cluster:</strong> ${clusterId}</p>`;
+    }
+    details += `<p class="muted">Created ${this.escape(new Date(issue.created_at).toLocaleDateString())} · Updated ${this.escape(
+      new Date(issue.updated_at).toLocaleDateString()
+    )} · ${issue.comments} comments</p>`;
+
+    return `<tr data-severity="${severityLabel}" data-state="${issue.state}" data-confidence="${
+      analysis.confidence_score
+    }" data-labels="${this.escape(labelNames.join('\n'))}">
+  <td data-value="${this.escape(issueRepository(issue))}">${this.escape(issueRepository(issue))}</td>
+  <td data-value="${issue.number}"><a href="${this.escape(issue.html_url)}">${issue.number}</a></td>
+  <td data-value="${this.escape(issue.title.toLowerCase())}"><details><summary>${this.escape(
+    issue.title
+  )}</summary><div class="body">${details}</div></details></td>
+  <td data-value="${countsTowardSeverity(item) ? severityRank(severity) : -1}"><span class="badge" style="background:${
+    badgeColor
+  }">${severityLabel}</span></td>
+  <td data-value="${analysis.confidence_score}">${analysis.confidence_score}%</td>
+  <td data-value="${this.escape(labelNames.join(', '))}">${labelNames
+    .map((name) => `<span class="label">${this.escape(name)}</span>`)
+    .join('')}</td>
+  <td data-value="${issue.state}">${issue.state}</td>
+  <td data-value="${ageDays}">${ageDays}</td>
+</tr>`;
+  }
+
+  private renderSummary(report: ComponentAnalysisReport): string {
+    const { summary } = report;
+    const list = (title: string, items: string[]) =>
+      items.length > 0
+        ? `<h3>${title}</h3>\n<ul>${items.map((item) => `<li>${this.escape(item)}</li>`).join('')}</ul>`
+        : '';
+
+    return `<h2>Analysis Summary</h2>
+<div class="summary">
+${list('Most Critical Issues', summary.most_critical_issues)}
+${list('Common Problems Identified', summary.common_problems)}
+${list('Recommended Actions', summary.recommended_actions)}
+</div>`;
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -0,0 +1,47 @@
+import { Config, LLMProvider } from '../types';
+import { HeuristicService } from './heuristic';
+import { OpenAIService, OpenAIServiceOptions } from './openai';
+import { OpenAICompatibleService } from './openai-compatible';
+import { DEFAULT_PROMPTS_DIR, PromptTemplateService } from './prompts';
+
+/**
+ * Create the LLM provider selected in the config. API-backed providers send their requests
+ * through `scheduler`, count their tokens with `usageTracker` and use the configured prompt templates.
+ */
+export function createLLMProvider(config: Config, options: OpenAIServiceOptions = {}): LLMProvider {
+  options = { ...options, prompts: options.prompts || createPromptTemplateService(config) };
+
+  switch (config.llmProvider) {
+    case 'heuristic':
+      return new HeuristicService();
+    case 'openai-compatible':
+      if (!config.llmBaseUrl) {
+        throw new Error('LLM_BASE_URL is required for the openai-compatible provider');
+      }
+      return new OpenAICompatibleService(
+        config.llmBaseUrl,
+        config.openaiModel || 'llama3.1',
+        config.openaiApiKey,
+        options
+      );
+    case 'openai':
+      if (!config.openaiApiKey) {
+        throw new Error('OPENAI_API_KEY environment variable is required');
+      }
+      return new OpenAIService(config.openaiApiKey, config.openaiModel, undefined, options);
+    default:
+      throw new Error(`Unknown LLM provider: ${config.llmProvider}`);
+  }
+}
+
+/**
+ * Create the prompt template service for the config's global and per-component template directories
+ */
+export function createPromptTemplateService(config: Config): PromptTemplateService {
+  const componentDirs = Object.fromEntries(
+    Object.entries(config.componentOverrides || {})
+      .filter(([, override]) => override.prompts)
+      .map(([component, override]) => [component, override.prompts!])
+  );
+  return new PromptTemplateService(config.promptsDir || DEFAULT_PROMPTS_DIR, componentDirs);
+}
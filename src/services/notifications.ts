@@ -0,0 +1,129 @@
+import { AnalyzerLogger, CriticalIssuesNotification, NotificationSink } from '../types';
+import { Logger } from '../utils/logger';
+import { RequestScheduler } from './scheduler';
+
+export const NOTIFICATION_SINK_TYPES: Array<NotificationSink['type']> = ['webhook', 'slack', 'teams'];
+
+// A sink that doesn't answer in time is retried like one that refuses the connection
+const NOTIFICATION_TIMEOUT_MS = 10_000;
+
+/**
+ * Posts notifications about new critical issues to webhooks and chat channels. Failed requests
+ * are retried through the request scheduler; a sink that still fails is logged and skipped, so
+ * a broken webhook never fails an analysis.
+ */
+export class NotificationService {
+  private readonly scheduler: RequestScheduler;
+  private readonly logger: AnalyzerLogger;
+  private readonly dryRun: boolean;
+
+  constructor(
+    private readonly sinks: NotificationSink[],
+    options: { scheduler?: RequestScheduler; logger?: AnalyzerLogger; dryRun?: boolean } = {}
+  ) {
+    this.logger = options.logger || new Logger();
+    this.scheduler = options.scheduler || new RequestScheduler({ logger: this.logger });
+    this.dryRun = options.dryRun ?? false;
+  }
+
+  hasSinks(): boolean {
+    return this.sinks.length > 0;
+  }
+
+  /**
+   * Send a notification to every sink, or print the payloads in a dry run.
+   * Resolves with the number of sinks that were notified.
+   */
+  async notify(notification: CriticalIssuesNotification): Promise<number> {
+    const results = await Promise.all(
+      this.sinks.map(async (sink) => {
+        const payload = this.buildPayload(sink, notification);
+        const name = this.describeSink(sink);
+
+        if (this.dryRun) {
+          this.logger.info(`[dry run] Notification to ${name}:\n${JSON.stringify(payload, null, 2)}`);
+          return true;
+        }
+
+        try {
+          await this.send(sink, payload);
+          const count = notification.new_critical_issues.length;
+          this.logger.success(`Notified ${name} of ${count} new critical issue${count === 1 ? '' : 's'}`);
+          return true;
+        } catch (error) {
+          this.logger.warning(`Failed to notify ${name}: ${error}`);
+          return false;
+        }
+      })
+    );
+
+    return results.filter(Boolean).length;
+  }
+
+  /**
+   * The JSON body for a sink: the notification itself for webhooks, a text message for chat
+   */
+  buildPayload(sink: NotificationSink, notification: CriticalIssuesNotification): unknown {
+    if (sink.type === 'webhook') {
+      return notification;
+    }
+
+    const { component_name, new_critical_issues: issues } = notification;
+    const link = (key: string, url: string) => (sink.type === 'slack' ? `<${url}|${key}>` : `[${key}](${url})`);
+    const bold = (text: string) => (sink.type === 'slack' ? `*${text}*` : `**${text}**`);
+
+    const heading = `🚨 ${bold(
+      `${issues.length} new critical ${component_name} issue${issues.length === 1 ? '' : 's'}`
+    )} (${notification.critical_issues} critical in total)`;
+    const lines = issues.map((issue) => {
+      const previously = issue.old_severity ? ` (was ${issue.old_severity})` : '';
+      return `• ${link(`${issue.repository}#${issue.number}`, issue.html_url)} ${issue.title}${previously}`;
+    });
+
+    return { text: [heading, ...lines].join('\n') };
+  }
+
+  private async send(sink: NotificationSink, payload: unknown): Promise<void> {
+    await this.scheduler.schedule('notifications', `Notification to ${this.describeSink(sink)}`, async () => {
+      let response: Response;
+      try {
+        response = await fetch(sink.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...sink.headers },
+          body: JSON.stringify(payload),
+          signal: AbortSignal.timeout(NOTIFICATION_TIMEOUT_MS),
+        });
+      } catch (error: any) {
+        if (error.name === 'TimeoutError') {
+          throw Object.assign(new Error(`No response within ${NOTIFICATION_TIMEOUT_MS / 1000}s`), { code: 'ETIMEDOUT' });
+        }
+        // fetch hides the network error code in `cause`; the scheduler needs it to retry
+        throw Object.assign(new Error(`${error.message}: ${error.cause?.message ?? error.cause}`), {
+          code: error.cause?.code,
+        });
+      }
+
+      if (!response.ok) {
+        const body = (await response.text()).slice(0, 200);
+        throw Object.assign(new Error(`HTTP ${response.status}${body ? `: ${body}` : ''}`), {
+          status: response.status,
+          headers: response.headers,
+        });
+      }
+    });
+  }
+
+  /**
+   * Name of a sink for logs. Webhook URLs often embed a secret, so only the host is shown.
+   */
+  private describeSink(sink: NotificationSink): string {
+    if (sink.name) {
+      return sink.name;
+    }
+    try {
+      return `${sink.type} ${new URL(sink.url).host}`;
+    } catch {
+      return sink.type;
+    }
+  }
+}
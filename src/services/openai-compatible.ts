@@ -0,0 +1,15 @@
+import { OpenAIService, OpenAIServiceOptions } from './openai';
+
+/**
+ * LLM provider for self-hosted servers exposing the OpenAI chat completions API
+ * (Ollama, vLLM, LM Studio, ...). Issue text never leaves the configured endpoint.
+ */
+export class OpenAICompatibleService extends OpenAIService {
+  readonly name: string;
+
+  constructor(baseURL: string, model: string, apiKey?: string, options: OpenAIServiceOptions = {}) {
+    // Local servers usually ignore the key, but the OpenAI client refuses an empty one
+    super(apiKey || 'not-needed', model, baseURL, options);
+    this.name = `OpenAI-compatible endpoint (${baseURL})`;
+  }
+}
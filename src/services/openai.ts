@@ -1,138 +1,123 @@
 import OpenAI from 'openai';
-import { IssueAnalysis, OpenAIIssueAnalysisRequest } from '../types';
-
-export class OpenAIService {
-  private client: OpenAI;
-  private model: string;
+import {
+  AnalyzerLogger,
+  ComponentSummary,
+  GitHubIssue,
+  IssueAnalysis,
+  LLMProvider,
+  OpenAIIssueAnalysisRequest,
+  PromptTemplateRef,
+  TokenUsage,
+} from '../types';
+import { Logger } from '../utils/logger';
+import { COMPONENT_SUMMARY_SCHEMA, ISSUE_ANALYSIS_SCHEMA, JsonSchema, validateSchema } from '../utils/schemas';
+import { emptyUsage } from '../utils/usage';
+import { PromptTemplateService } from './prompts';
+import { RequestScheduler } from './scheduler';
+import { UsageTracker } from './usage';
+
+export interface OpenAIServiceOptions {
+  scheduler?: RequestScheduler;
+  logger?: AnalyzerLogger;
+  prompts?: PromptTemplateService;
+  usageTracker?: UsageTracker;
+}
 
-  constructor(apiKey: string, model: string = 'gpt-4o-mini') {
+export class OpenAIService implements LLMProvider {
+  readonly name: string = 'OpenAI';
+  protected client: OpenAI;
+  protected model: string;
+  protected scheduler: RequestScheduler;
+  protected logger: AnalyzerLogger;
+  protected prompts: PromptTemplateService;
+  protected usageTracker: UsageTracker;
+  protected structuredOutputs = true;
+  private readonly MAX_REPAIR_ATTEMPTS = 2;
+
+  constructor(apiKey: string, model: string = 'gpt-4o-mini', baseURL?: string, options: OpenAIServiceOptions = {}) {
     this.client = new OpenAI({
       apiKey,
+      baseURL,
+      // Retries are handled by the scheduler, which shares rate-limit pauses between requests
+      maxRetries: 0,
     });
     this.model = model;
+    this.logger = options.logger || new Logger();
+    this.scheduler = options.scheduler || new RequestScheduler({ logger: this.logger });
+    this.prompts = options.prompts || new PromptTemplateService();
+    this.usageTracker = options.usageTracker || new UsageTracker({ logger: this.logger });
+  }
+
+  get modelName(): string {
+    return this.model;
   }
 
   /**
-   * Analyze a GitHub issue to determine if it's critical for component usage
+   * Analyze a GitHub issue to determine if it's critical for component usage. When no valid
+   * analysis can be obtained the result is marked `analysis_status: 'failed'`.
    */
   async analyzeIssue(request: OpenAIIssueAnalysisRequest): Promise<IssueAnalysis> {
-    const prompt = this.buildAnalysisPrompt(request);
+    const template = this.getPromptTemplate(request.component_name);
+    const usage = emptyUsage();
 
     try {
-      const completion = await this.client.chat.completions.create({
-        model: this.model,
-        messages: [
+      // Don't queue requests that could only be refused once their turn comes
+      this.usageTracker.checkLimits();
+      const analysis = await this.requestStructured<IssueAnalysis>(
+        `Analysis of ${request.issue_url}`,
+        'issue_analysis',
+        ISSUE_ANALYSIS_SCHEMA,
+        [
           {
             role: 'system',
-            content: `You are an expert frontend developer and component library maintainer. Your task is to analyze GitHub issues related to the ${request.component_name} shadcn/ui only and determine their criticality for basic component usage and performance.
-
-A CRITICAL issue is one that:
-- Prevents the component from rendering or functioning at all
-- Causes the component to crash the application
-- Makes the component completely unusable for its primary purpose
-- Causes severe performance issues that make the component unusable
-- Introduces security vulnerabilities
-- Breaks core accessibility features that make the component unusable for users with disabilities
-
-A HIGH priority issue is one that:
-- Significantly impacts the component's functionality but doesn't prevent basic usage
-- Causes noticeable performance degradation
-- Affects important but not core features
-- Has workarounds but they are complex or hacky
-
-A MEDIUM priority issue is one that:
-- Affects edge cases or less common use cases
-- Has minor performance impacts
-- Affects styling or visual appearance in non-breaking ways
-- Has simple workarounds
-
-A LOW priority issue is one that:
-- Affects very specific edge cases
-- Is more of an enhancement than a bug
-- Has minimal impact on functionality
-- Is primarily cosmetic
-
-Respond with a JSON object matching the IssueAnalysis interface.`,
+            content: this.buildSystemPrompt(request.component_name),
           },
           {
             role: 'user',
-            content: prompt,
+            content: this.buildAnalysisPrompt(request),
           },
         ],
-        response_format: {
-          type: 'json_object',
-        },
-        temperature: 0.1,
-      });
+        0.1,
+        usage
+      );
 
-      const content = completion.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response content from OpenAI');
-      }
-
-      const analysis = JSON.parse(content) as IssueAnalysis;
-
-      // Validate the response structure
-      this.validateAnalysis(analysis);
-
-      return analysis;
-    } catch (error) {
-      console.error('Error analyzing issue with OpenAI:', error);
-
-      // Return a fallback analysis if OpenAI fails
+      // Maintainer participation is a fact of the thread, not something to ask the model
       return {
-        issue_id: parseInt(request.issue_url.split('/').pop() || '0'),
-        is_critical: false,
-        severity_level: 'medium',
-        reasoning: `Failed to analyze with OpenAI: ${error}. Manual review required.`,
-        affected_functionality: ['unknown'],
-        impact_description: 'Unable to determine impact due to analysis failure',
-        confidence_score: 0,
+        ...analysis,
+        ...this.normalizeFixes(analysis),
+        maintainer_responded: (request.issue_comments || []).some((comment) => comment.is_maintainer),
+        analysis_status: 'ok',
+        prompt_template: template.name,
+        prompt_hash: template.hash,
+        usage,
       };
+    } catch (error) {
+      // Issues left when a run limit is reached all fail the same way; the tracker reports it once
+      if (this.usageTracker.isExhausted()) {
+        this.logger.debug(`Skipped ${request.issue_url}: ${error}`);
+      } else {
+        this.logger.error(`Error analyzing issue ${request.issue_url} with ${this.name}: ${error}`);
+      }
+      return this.createFailedAnalysis(request, error, template, usage);
     }
   }
 
   /**
-   * Analyze multiple issues in batch
+   * Analyze multiple issues in batch. Requests run concurrently up to the scheduler's limit.
    */
   async analyzeIssuesBatch(requests: OpenAIIssueAnalysisRequest[]): Promise<IssueAnalysis[]> {
-    const results: IssueAnalysis[] = [];
-
-    // Process in batches to avoid rate limits
-    const batchSize = 5;
-    for (let i = 0; i < requests.length; i += batchSize) {
-      const batch = requests.slice(i, i + batchSize);
-
-      console.log(`Analyzing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(requests.length / batchSize)}...`);
-
-      const batchPromises = batch.map((request) => this.analyzeIssue(request));
-      const batchResults = await Promise.allSettled(batchPromises);
-
-      batchResults.forEach((result, index) => {
-        if (result.status === 'fulfilled') {
-          results.push(result.value);
-        } else {
-          console.error(`Failed to analyze issue ${batch[index].issue_url}:`, result.reason);
-          // Add fallback analysis for failed requests
-          results.push({
-            issue_id: parseInt(batch[index].issue_url.split('/').pop() || '0'),
-            is_critical: false,
-            severity_level: 'medium',
-            reasoning: `Analysis failed: ${result.reason}`,
-            affected_functionality: ['unknown'],
-            impact_description: 'Unable to determine impact due to analysis failure',
-            confidence_score: 0,
-          });
+    let completed = 0;
+
+    return Promise.all(
+      requests.map(async (request) => {
+        const analysis = await this.analyzeIssue(request);
+        completed++;
+        if (completed % 10 === 0 || completed === requests.length) {
+          this.logger.progress(`Analyzed ${completed}/${requests.length} issues`);
         }
-      });
-
-      // Add delay between batches to respect rate limits
-      if (i + batchSize < requests.length) {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      }
-    }
-
-    return results;
+        return analysis;
+      })
+    );
   }
 
   /**
@@ -140,126 +125,239 @@ Respond with a JSON object matching the IssueAnalysis interface.`,
    */
   async generateComponentSummary(
     componentName: string,
-    analyses: Array<{ analysis: IssueAnalysis; github_issue: any }>
-  ): Promise<{
-    most_critical_issues: string[];
-    common_problems: string[];
-    recommended_actions: string[];
-  }> {
+    analyses: Array<{ analysis: IssueAnalysis; github_issue: GitHubIssue }>
+  ): Promise<ComponentSummary> {
     const criticalAnalyses = analyses.filter((a) => a.analysis.is_critical || a.analysis.severity_level === 'critical');
     const highPriorityAnalyses = analyses.filter((a) => a.analysis.severity_level === 'high');
 
-    const prompt = `
-Analyze the following component issue analyses for the ${componentName} component and provide a summary:
-
-Critical Issues (${criticalAnalyses.length}):
-${criticalAnalyses.map((a) => `- ${a.github_issue.title}: ${a.analysis.reasoning}`).join('\n')}
-
-High Priority Issues (${highPriorityAnalyses.length}):
-${highPriorityAnalyses.map((a) => `- ${a.github_issue.title}: ${a.analysis.reasoning}`).join('\n')}
-
-Please provide:
-1. most_critical_issues: Array of the top 3-5 most critical issue titles/descriptions
-2. common_problems: Array of common problem patterns you notice
-3. recommended_actions: Array of recommended actions for developers using this component
-
-Respond with a JSON object.`;
+    const template = this.prompts.getTemplate(componentName);
+    const prompt = this.prompts.render(template.summary, {
+      component: componentName,
+      critical_count: criticalAnalyses.length,
+      critical_issues: criticalAnalyses.map((a) => `- ${a.github_issue.title}: ${a.analysis.reasoning}`).join('\n'),
+      high_count: highPriorityAnalyses.length,
+      high_issues: highPriorityAnalyses.map((a) => `- ${a.github_issue.title}: ${a.analysis.reasoning}`).join('\n'),
+    });
 
+    const usage = emptyUsage();
     try {
-      const completion = await this.client.chat.completions.create({
-        model: this.model,
-        messages: [
+      const summary = await this.requestStructured<ComponentSummary>(
+        `Summary of ${componentName} issues`,
+        'component_summary',
+        COMPONENT_SUMMARY_SCHEMA,
+        [
           {
             role: 'system',
-            content:
-              'You are an expert frontend developer providing actionable insights about component issues. Be concise and practical.',
+            content: this.prompts.render(template.summarySystem, { component: componentName }),
           },
           {
             role: 'user',
             content: prompt,
           },
         ],
-        response_format: {
-          type: 'json_object',
-        },
-        temperature: 0.2,
-      });
-
-      const content = completion.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response content from OpenAI');
-      }
-
-      return JSON.parse(content);
+        0.2,
+        usage
+      );
+      return { ...summary, usage };
     } catch (error) {
-      console.error('Error generating component summary:', error);
+      this.logger.error(`Error generating component summary: ${error}`);
       return {
         most_critical_issues: criticalAnalyses.slice(0, 3).map((a) => a.github_issue.title),
         common_problems: ['Unable to analyze common problems due to API error'],
         recommended_actions: ['Manual review of issues recommended due to analysis failure'],
+        ...(usage.requests > 0 && { usage }),
       };
     }
   }
 
   /**
-   * Build the analysis prompt for a single issue
+   * Request a JSON object matching `schema`. A response that doesn't parse or validate is sent
+   * back to the model with the validation errors, up to MAX_REPAIR_ATTEMPTS times. The tokens of
+   * every attempt are added to `usage`. No request is sent once a run limit has been reached.
    */
-  private buildAnalysisPrompt(request: OpenAIIssueAnalysisRequest): string {
-    return `
-Analyze this GitHub issue for the ${request.component_name} component:
+  protected async requestStructured<T>(
+    label: string,
+    schemaName: string,
+    schema: JsonSchema,
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    temperature: number,
+    usage: TokenUsage = emptyUsage()
+  ): Promise<T> {
+    const conversation = [...messages];
+    let errors: string[] = [];
+
+    for (let attempt = 0; attempt <= this.MAX_REPAIR_ATTEMPTS; attempt++) {
+      const completion = await this.scheduler.schedule('llm', label, () => {
+        this.usageTracker.checkLimits();
+        return this.createCompletion(conversation, schemaName, schema, temperature);
+      });
+      this.usageTracker.record(this.model, completion.usage, usage);
 
-**Issue Title:** ${request.issue_title}
+      const content = completion.choices[0]?.message?.content;
+      if (!content) {
+        errors = ['the response was empty'];
+      } else {
+        try {
+          const parsed = JSON.parse(content);
+          errors = validateSchema(parsed, schema);
+          if (errors.length === 0) {
+            return parsed as T;
+          }
+        } catch (error) {
+          errors = [`the response is not valid JSON (${error})`];
+        }
+      }
 
-**Issue URL:** ${request.issue_url}
+      conversation.push(
+        { role: 'assistant', content: content || '' },
+        {
+          role: 'user',
+          content: `Your response does not match the required JSON schema:\n- ${errors.join(
+            '\n- '
+          )}\n\nRespond again with only the corrected JSON object.`,
+        }
+      );
+    }
 
-**Labels:** ${request.issue_labels.join(', ') || 'None'}
+    throw new Error(`No valid response after ${this.MAX_REPAIR_ATTEMPTS + 1} attempts: ${errors.join('; ')}`);
+  }
 
-**Issue Description:**
-${request.issue_body || 'No description provided'}
+  /**
+   * Send a chat completion, enforcing the schema with strict structured outputs where the model
+   * supports them and falling back to plain JSON mode where it doesn't
+   */
+  private async createCompletion(
+    messages: OpenAI.Chat.ChatCompletionMessageParam[],
+    schemaName: string,
+    schema: JsonSchema,
+    temperature: number
+  ): Promise<OpenAI.Chat.ChatCompletion> {
+    if (this.structuredOutputs) {
+      try {
+        return await this.client.chat.completions.create({
+          model: this.model,
+          messages,
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: schemaName, strict: true, schema: schema as unknown as Record<string, unknown> },
+          },
+          temperature,
+        });
+      } catch (error: any) {
+        if (error?.status !== 400 || !/response_format|json_schema/i.test(String(error?.message))) {
+          throw error;
+        }
+        this.logger.warning(`${this.model} does not support structured outputs; validating JSON responses instead`);
+        this.structuredOutputs = false;
+      }
+    }
 
-Please analyze this issue and respond with a JSON object containing:
-{
-  "issue_id": number, // Extract from URL
-  "is_critical": boolean, // true if this prevents basic component usage
-  "severity_level": "low" | "medium" | "high" | "critical",
-  "reasoning": "string", // Detailed explanation of your assessment
-  "affected_functionality": ["array", "of", "affected", "features"],
-  "impact_description": "string", // How this affects users
-  "confidence_score": number // 0-100, how confident you are in this assessment
-}
+    return this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      response_format: {
+        type: 'json_object',
+      },
+      temperature,
+    });
+  }
+
+  /**
+   * Strict structured outputs can't leave fields out, so the model answers "" for a missing
+   * snippet, fix version or commit. Drop those instead of storing empty strings.
+   */
+  private normalizeFixes(analysis: IssueAnalysis): Pick<IssueAnalysis, 'workarounds' | 'fix_version' | 'fix_commit'> {
+    return {
+      workarounds: (analysis.workarounds || []).map((workaround) => ({
+        ...workaround,
+        snippet: workaround.snippet?.trim() || undefined,
+        source: workaround.source?.trim() || undefined,
+      })),
+      fix_version: analysis.fix_version?.trim() || undefined,
+      fix_commit: analysis.fix_commit?.trim() || undefined,
+    };
+  }
 
-Focus on whether this issue prevents the component from working for its intended purpose or causes significant usability problems.`;
+  /**
+   * Result for an issue that could not be analyzed. It counts towards no severity.
+   */
+  private createFailedAnalysis(
+    request: OpenAIIssueAnalysisRequest,
+    error: unknown,
+    template: PromptTemplateRef,
+    usage: TokenUsage
+  ): IssueAnalysis {
+    return {
+      issue_id: parseInt(request.issue_url.split('/').pop() || '0'),
+      is_critical: false,
+      severity_level: 'low',
+      reasoning: `Analysis failed: ${error}. Manual review required.`,
+      affected_functionality: [],
+      impact_description: 'Not assessed',
+      confidence_score: 0,
+      analysis_status: 'failed',
+      analysis_error: String(error),
+      prompt_template: template.name,
+      prompt_hash: template.hash,
+      ...(usage.requests > 0 && { usage }),
+    };
   }
 
   /**
-   * Validate the analysis response structure
+   * Name and hash of the prompt templates used for a component. The hash also keys the cache,
+   * so cached analyses are invalidated when the templates change.
    */
-  private validateAnalysis(analysis: any): void {
-    const required = [
-      'issue_id',
-      'is_critical',
-      'severity_level',
-      'reasoning',
-      'affected_functionality',
-      'impact_description',
-      'confidence_score',
-    ];
-    const missing = required.filter((field) => !(field in analysis));
+  getPromptTemplate(componentName: string): PromptTemplateRef {
+    const { name, hash } = this.prompts.getTemplate(componentName);
+    return { name, hash };
+  }
 
-    if (missing.length > 0) {
-      throw new Error(`Missing required fields in analysis: ${missing.join(', ')}`);
-    }
+  /**
+   * Build the system prompt holding the severity rubric
+   */
+  private buildSystemPrompt(componentName: string): string {
+    const template = this.prompts.getTemplate(componentName);
+    return this.prompts.render(template.system, {
+      component: componentName,
+      rubric: this.prompts.render(template.rubric, { component: componentName }),
+    });
+  }
 
-    if (!['low', 'medium', 'high', 'critical'].includes(analysis.severity_level)) {
-      throw new Error(`Invalid severity_level: ${analysis.severity_level}`);
-    }
+  /**
+   * Build the analysis prompt for a single issue
+   */
+  private buildAnalysisPrompt(request: OpenAIIssueAnalysisRequest): string {
+    return this.prompts.render(this.prompts.getTemplate(request.component_name).issue, {
+      component: request.component_name,
+      title: request.issue_title,
+      url: request.issue_url,
+      repository: request.issue_repository || 'shadcn-ui/ui',
+      labels: request.issue_labels.join(', ') || 'None',
+      body: request.issue_body || 'No description provided',
+      discussion: this.buildDiscussionSection(request),
+    });
+  }
 
-    if (
-      typeof analysis.confidence_score !== 'number' ||
-      analysis.confidence_score < 0 ||
-      analysis.confidence_score > 100
-    ) {
-      throw new Error(`Invalid confidence_score: ${analysis.confidence_score}`);
+  /**
+   * Build the discussion section of the analysis prompt from the issue comments
+   */
+  private buildDiscussionSection(request: OpenAIIssueAnalysisRequest): string {
+    const comments = request.issue_comments || [];
+    if (comments.length === 0) {
+      return '';
     }
+
+    const thread = comments
+      .map((comment) => {
+        const role = comment.is_maintainer ? '[maintainer] ' : '';
+        const date = comment.created_at.split('T')[0];
+        return `${role}@${comment.user.login} (${date}):\n${comment.body}`;
+      })
+      .join('\n\n');
+
+    return `
+**Discussion (${comments.length} of ${request.total_comments ?? comments.length} comments):**
+${thread}
+`;
   }
 }
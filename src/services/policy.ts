@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import {
+  AllowlistEntry,
+  AnalyzerLogger,
+  CheckPolicy,
+  CheckVerdict,
+  ComponentAnalysisReport,
+  PolicyViolation,
+} from '../types';
+import { DEFAULT_REPOSITORY, issueKey } from '../utils/issues';
+import { Logger } from '../utils/logger';
+import { SEVERITY_ORDER, analysisFailed, effectiveSeverity, severityRank } from '../utils/severity';
+
+export const DEFAULT_POLICY_FILE = '.shadcn-analyzer-policy.json';
+
+/**
+ * Exit codes of the `check` command
+ */
+export const CHECK_EXIT_CODES = {
+  PASS: 0,
+  VIOLATION: 1,
+  ERROR: 2,
+};
+
+export class PolicyService {
+  constructor(private readonly logger: AnalyzerLogger = new Logger()) {}
+
+  /**
+   * Load and validate a policy file
+   */
+  loadPolicy(policyPath: string): CheckPolicy {
+    let policy: CheckPolicy;
+    try {
+      policy = JSON.parse(fs.readFileSync(policyPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to load policy ${policyPath}: ${error}`);
+    }
+
+    const errors = this.validatePolicy(policy);
+    if (errors.length > 0) {
+      throw new Error(`Invalid policy ${policyPath}:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    return policy;
+  }
+
+  /**
+   * Return a list of problems with a policy; empty when it is valid
+   */
+  validatePolicy(policy: any): string[] {
+    const errors: string[] = [];
+
+    if (!policy || typeof policy !== 'object') {
+      return ['policy must be a JSON object'];
+    }
+
+    if (!policy.fail_on || typeof policy.fail_on !== 'object') {
+      errors.push('"fail_on" is required');
+    } else {
+      if (!SEVERITY_ORDER.includes(policy.fail_on.severity)) {
+        errors.push(`"fail_on.severity" must be one of: ${SEVERITY_ORDER.join(', ')}`);
+      }
+      const confidence = policy.fail_on.min_confidence;
+      if (confidence !== undefined && (typeof confidence !== 'number' || confidence < 0 || confidence > 100)) {
+        errors.push('"fail_on.min_confidence" must be a number between 0 and 100');
+      }
+      const maxUnanalyzed = policy.fail_on.max_unanalyzed;
+      if (maxUnanalyzed !== undefined && (!Number.isInteger(maxUnanalyzed) || maxUnanalyzed < 0)) {
+        errors.push('"fail_on.max_unanalyzed" must be zero or a positive integer');
+      }
+    }
+
+    if (policy.components !== undefined && !Array.isArray(policy.components)) {
+      errors.push('"components" must be an array of component names');
+    }
+
+    if (policy.allowlist !== undefined) {
+      if (!Array.isArray(policy.allowlist)) {
+        errors.push('"allowlist" must be an array');
+      } else {
+        policy.allowlist.forEach((entry: any, index: number) => {
+          const issue = typeof entry === 'object' && entry !== null ? entry.issue : entry;
+          if (typeof issue !== 'number' && typeof issue !== 'string') {
+            errors.push(`"allowlist[${index}]" must be an issue number, an issue key or { "issue": ... }`);
+          }
+          if (typeof entry === 'object' && entry?.expires && isNaN(Date.parse(entry.expires))) {
+            errors.push(`"allowlist[${index}].expires" must be an ISO date`);
+          }
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Evaluate component reports against a policy, resolving bare allowlist issue numbers against
+   * `repos`, the searched repositories. Issues whose analysis failed were never classified, so
+   * more of them than `fail_on.max_unanalyzed` (none by default) make the verdict an error rather
+   * than a pass or a failure.
+   */
+  evaluate(
+    policy: CheckPolicy,
+    reports: ComponentAnalysisReport[],
+    repos: string[] = [DEFAULT_REPOSITORY],
+    now: Date = new Date()
+  ): CheckVerdict {
+    const { severity, min_confidence = 0, include_closed = false, max_unanalyzed = 0 } = policy.fail_on;
+    const allowlist = this.buildAllowlist(policy.allowlist || [], repos, now);
+
+    const violations: PolicyViolation[] = [];
+    const allowlisted = new Set<string>();
+    const unanalyzed = new Set<string>();
+    let checkedIssues = 0;
+
+    reports.forEach((report) => {
+      (report.not_analyzed || []).forEach((issue) => unanalyzed.add(issueKey(issue)));
+      report.issues.forEach(({ github_issue: issue, analysis, possibly_unrelated }) => {
+        if (analysisFailed(analysis)) {
+          unanalyzed.add(issueKey(issue));
+          return;
+        }
+        checkedIssues++;
+        if (possibly_unrelated) {
+          return;
+        }
+
+        const issueSeverity = effectiveSeverity(analysis);
+        const matches =
+          severityRank(issueSeverity) >= severityRank(severity) &&
+          analysis.confidence_score >= min_confidence &&
+          (include_closed || issue.state === 'open');
+        if (!matches) {
+          return;
+        }
+
+        const key = issueKey(issue);
+        if (allowlist.has(key)) {
+          allowlisted.add(key);
+          return;
+        }
+
+        violations.push({
+          component_name: report.component_name,
+          issue: key,
+          title: issue.title,
+          html_url: issue.html_url,
+          severity_level: issueSeverity,
+          confidence_score: analysis.confidence_score,
+        });
+      });
+    });
+
+    const tooManyUnanalyzed = unanalyzed.size > max_unanalyzed;
+    return {
+      verdict: tooManyUnanalyzed ? 'error' : violations.length > 0 ? 'fail' : 'pass',
+      ...(tooManyUnanalyzed && {
+        error:
+          `${unanalyzed.size} issue${unanalyzed.size === 1 ? '' : 's'} could not be analyzed ` +
+          `(fail_on.max_unanalyzed is ${max_unanalyzed})`,
+      }),
+      checked_components: reports.map((report) => report.component_name),
+      checked_issues: checkedIssues,
+      violations,
+      allowlisted: [...allowlisted],
+      unanalyzed: [...unanalyzed],
+    };
+  }
+
+  /**
+   * Normalize allowlist entries to issue keys, dropping expired ones. A bare issue number can
+   * only be resolved when a single repository is searched.
+   */
+  private buildAllowlist(entries: AllowlistEntry[], repos: string[], now: Date): Set<string> {
+    const keys = new Set<string>();
+    const resolve = (issue: number | string) => {
+      if (repos.length !== 1) {
+        throw new Error(
+          `Allowlist entry ${issue} is ambiguous with ${repos.length} repositories searched; ` +
+            'write it as owner/name#number'
+        );
+      }
+      return `${repos[0]}#${String(issue).replace(/^#/, '')}`;
+    };
+
+    entries.forEach((entry) => {
+      const issue = typeof entry === 'object' ? entry.issue : entry;
+      if (typeof entry === 'object' && entry.expires && new Date(entry.expires) < now) {
+        this.logger.warning(`Allowlist entry for ${issue} expired on ${entry.expires}`);
+        return;
+      }
+
+      if (typeof issue === 'number' || issue.startsWith('#')) {
+        keys.add(resolve(issue));
+      } else {
+        keys.add(issue);
+      }
+    });
+
+    return keys;
+  }
+}
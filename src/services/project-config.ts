@@ -0,0 +1,340 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ComponentOverride, Config, ProjectConfigFile } from '../types';
+import { LLM_PROVIDERS } from '../utils/config';
+import { parseRepository } from '../utils/issues';
+import { NOTIFICATION_SINK_TYPES } from './notifications';
+import { PromptTemplateService } from './prompts';
+import { ReporterRegistry } from './reporters';
+
+/**
+ * Config files looked up in the working directory, in order
+ */
+export const PROJECT_CONFIG_FILES = ['.shadcn-analyzer.json', 'shadcn-analyzer.config.ts', 'shadcn-analyzer.config.js'];
+
+const STRING_LIST_KEYS: Array<keyof ComponentOverride> = [
+  'aliases',
+  'keywords',
+  'exclude_terms',
+  'labels',
+  'exclude_labels',
+];
+
+/**
+ * Loads the project config file holding the team's shared defaults and per-component search
+ * overrides. File values take precedence over environment variables; CLI flags over both.
+ */
+export class ProjectConfigService {
+  /**
+   * Find the project config file in a directory
+   */
+  findConfigFile(dir: string = process.cwd()): string | undefined {
+    return PROJECT_CONFIG_FILES.map((file) => path.join(dir, file)).find((file) => fs.existsSync(file));
+  }
+
+  /**
+   * Load and validate a project config file
+   */
+  loadConfigFile(configPath: string): ProjectConfigFile {
+    const config = this.readConfigFile(configPath);
+
+    const errors = this.validateConfigFile(config);
+    if (errors.length > 0) {
+      throw new Error(`Invalid config ${configPath}:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    return config;
+  }
+
+  /**
+   * Return a list of problems with a project config; empty when it is valid
+   */
+  validateConfigFile(config: any): string[] {
+    const errors: string[] = [];
+
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      return ['config must be an object'];
+    }
+
+    const known = [
+      'model',
+      'llm_provider',
+      'llm_base_url',
+      'repos',
+      'github_api_url',
+      'max_issues',
+      'include_closed',
+      'formats',
+      'comment_budget',
+      'concurrency',
+      'output_dir',
+      'relevance_threshold',
+      'prompts',
+      'notifications',
+      'model_prices',
+      'components',
+      '$schema',
+    ];
+    Object.keys(config)
+      .filter((key) => !known.includes(key))
+      .forEach((key) => errors.push(`unknown setting "${key}"`));
+
+    ['model', 'llm_base_url', 'github_api_url', 'output_dir', 'prompts'].forEach((key) => {
+      if (config[key] !== undefined && typeof config[key] !== 'string') {
+        errors.push(`"${key}" must be a string`);
+      }
+    });
+
+    if (config.llm_provider !== undefined && !LLM_PROVIDERS.includes(config.llm_provider)) {
+      errors.push(`"llm_provider" must be one of: ${LLM_PROVIDERS.join(', ')}`);
+    }
+
+    if (config.repos !== undefined) {
+      if (!this.isStringList(config.repos)) {
+        errors.push('"repos" must be an array of owner/name strings');
+      } else {
+        config.repos.forEach((repo: string) => {
+          try {
+            parseRepository(repo);
+          } catch (error) {
+            errors.push(`"repos": ${error instanceof Error ? error.message : error}`);
+          }
+        });
+      }
+    }
+
+    this.checkCount(config.max_issues, '"max_issues"', 1, errors);
+    this.checkCount(config.comment_budget, '"comment_budget"', 0, errors);
+    this.checkCount(config.concurrency, '"concurrency"', 1, errors);
+
+    const threshold = config.relevance_threshold;
+    if (threshold !== undefined && (typeof threshold !== 'number' || threshold < 0 || threshold > 100)) {
+      errors.push('"relevance_threshold" must be a number from 0 to 100');
+    }
+
+    if (config.include_closed !== undefined && typeof config.include_closed !== 'boolean') {
+      errors.push('"include_closed" must be true or false');
+    }
+
+    if (config.formats !== undefined) {
+      const available = new ReporterRegistry().getFormats();
+      if (!this.isStringList(config.formats)) {
+        errors.push('"formats" must be an array of format names');
+      } else {
+        config.formats
+          .filter((format: string) => !available.includes(format))
+          .forEach((format: string) => {
+            errors.push(`"formats": unknown format "${format}" (available: ${available.join(', ')})`);
+          });
+      }
+    }
+
+    if (typeof config.prompts === 'string') {
+      errors.push(...this.checkPrompts(config.prompts, '"prompts"'));
+    }
+
+    if (config.notifications !== undefined) {
+      if (!Array.isArray(config.notifications)) {
+        errors.push('"notifications" must be an array of sinks');
+      } else {
+        config.notifications.forEach((sink: any, index: number) => {
+          errors.push(...this.validateNotificationSink(sink, `notifications[${index}]`));
+        });
+      }
+    }
+
+    if (config.model_prices !== undefined) {
+      const prices = config.model_prices;
+      if (typeof prices !== 'object' || prices === null || Array.isArray(prices)) {
+        errors.push('"model_prices" must be an object keyed by model name');
+      } else {
+        Object.entries(prices).forEach(([model, price]) => {
+          errors.push(...this.validateModelPrice(price, `model_prices.${model}`));
+        });
+      }
+    }
+
+    if (config.components !== undefined) {
+      if (typeof config.components !== 'object' || config.components === null || Array.isArray(config.components)) {
+        errors.push('"components" must be an object keyed by component name');
+      } else {
+        Object.entries(config.components).forEach(([name, override]) => {
+          errors.push(...this.validateOverride(name, override));
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Apply a project config on top of a base config, usually the one read from the environment
+   */
+  applyConfigFile(base: Config, file: ProjectConfigFile): Config {
+    const components = Object.fromEntries(
+      Object.entries(file.components || {}).map(([name, override]) => [name.toLowerCase(), override])
+    );
+
+    return {
+      ...base,
+      openaiModel: file.model ?? base.openaiModel,
+      llmProvider: file.llm_provider ?? base.llmProvider,
+      llmBaseUrl: file.llm_base_url ?? base.llmBaseUrl,
+      targetRepos: file.repos ?? base.targetRepos,
+      githubApiUrl: file.github_api_url ?? base.githubApiUrl,
+      maxIssues: file.max_issues ?? base.maxIssues,
+      includeClosedIssues: file.include_closed ?? base.includeClosedIssues,
+      formats: file.formats ?? base.formats,
+      commentTokenBudget: file.comment_budget ?? base.commentTokenBudget,
+      requestConcurrency: file.concurrency ?? base.requestConcurrency,
+      outputDir: file.output_dir ?? base.outputDir,
+      relevanceThreshold: file.relevance_threshold ?? base.relevanceThreshold,
+      promptsDir: file.prompts ?? base.promptsDir,
+      notifications: file.notifications ?? base.notifications,
+      modelPrices: { ...base.modelPrices, ...file.model_prices },
+      componentOverrides: { ...base.componentOverrides, ...components },
+    };
+  }
+
+  private validateOverride(name: string, override: any): string[] {
+    const errors: string[] = [];
+    const prefix = `components.${name}`;
+
+    if (!override || typeof override !== 'object' || Array.isArray(override)) {
+      return [`"${prefix}" must be an object`];
+    }
+
+    Object.keys(override)
+      .filter((key) => !STRING_LIST_KEYS.includes(key as keyof ComponentOverride))
+      .filter((key) => key !== 'max_issues' && key !== 'prompts')
+      .forEach((key) => errors.push(`"${prefix}": unknown setting "${key}"`));
+
+    STRING_LIST_KEYS.forEach((key) => {
+      if (override[key] !== undefined && !this.isStringList(override[key])) {
+        errors.push(`"${prefix}.${key}" must be an array of strings`);
+      }
+    });
+
+    this.checkCount(override.max_issues, `"${prefix}.max_issues"`, 1, errors);
+
+    if (override.prompts !== undefined) {
+      if (typeof override.prompts !== 'string') {
+        errors.push(`"${prefix}.prompts" must be a string`);
+      } else {
+        errors.push(...this.checkPrompts(override.prompts, `"${prefix}.prompts"`));
+      }
+    }
+
+    return errors;
+  }
+
+  private validateNotificationSink(sink: any, prefix: string): string[] {
+    if (!sink || typeof sink !== 'object' || Array.isArray(sink)) {
+      return [`"${prefix}" must be an object`];
+    }
+
+    const errors = Object.keys(sink)
+      .filter((key) => !['type', 'url', 'name', 'headers'].includes(key))
+      .map((key) => `"${prefix}": unknown setting "${key}"`);
+
+    if (!NOTIFICATION_SINK_TYPES.includes(sink.type)) {
+      errors.push(`"${prefix}.type" must be one of: ${NOTIFICATION_SINK_TYPES.join(', ')}`);
+    }
+    if (typeof sink.url !== 'string' || !/^https?:\/\/\S+$/.test(sink.url)) {
+      errors.push(`"${prefix}.url" must be an http(s) URL`);
+    }
+    if (sink.name !== undefined && typeof sink.name !== 'string') {
+      errors.push(`"${prefix}.name" must be a string`);
+    }
+    if (
+      sink.headers !== undefined &&
+      (typeof sink.headers !== 'object' ||
+        sink.headers === null ||
+        Object.values(sink.headers).some((value) => typeof value !== 'string'))
+    ) {
+      errors.push(`"${prefix}.headers" must be an object of strings`);
+    }
+
+    return errors;
+  }
+
+  private validateModelPrice(price: any, prefix: string): string[] {
+    if (!price || typeof price !== 'object' || Array.isArray(price)) {
+      return [`"${prefix}" must be an object with input and output prices`];
+    }
+
+    const errors = Object.keys(price)
+      .filter((key) => !['input', 'output'].includes(key))
+      .map((key) => `"${prefix}": unknown setting "${key}"`);
+
+    ['input', 'output'].forEach((key) => {
+      if (typeof price[key] !== 'number' || !(price[key] >= 0)) {
+        errors.push(`"${prefix}.${key}" must be a price in USD per million tokens`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Load a prompt template directory to report missing directories and bad placeholders
+   */
+  private checkPrompts(dir: string, name: string): string[] {
+    try {
+      new PromptTemplateService().loadTemplate(dir);
+      return [];
+    } catch (error) {
+      return [`${name}: ${error instanceof Error ? error.message : error}`];
+    }
+  }
+
+  private checkCount(value: unknown, name: string, min: number, errors: string[]): void {
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < min)) {
+      errors.push(`${name} must be an integer of at least ${min}`);
+    }
+  }
+
+  private isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim().length > 0);
+  }
+
+  /**
+   * Read a JSON config, or a TypeScript/JavaScript config exporting the config as default
+   */
+  private readConfigFile(configPath: string): any {
+    const resolved = path.resolve(configPath);
+    if (!fs.existsSync(resolved)) {
+      throw new Error(`Config file not found: ${configPath}`);
+    }
+
+    if (resolved.endsWith('.json')) {
+      try {
+        return JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+      } catch (error) {
+        throw new Error(`Failed to parse ${configPath}: ${error}`);
+      }
+    }
+
+    if (resolved.endsWith('.ts') && !(process as any)[Symbol.for('ts-node.register.instance')]) {
+      try {
+        require('ts-node').register({ transpileOnly: true });
+      } catch (error) {
+        throw new Error(`Loading ${configPath} requires ts-node to be installed: ${error}`);
+      }
+    }
+
+    try {
+      const loaded = require(resolved);
+      return loaded?.default ?? loaded;
+    } catch (error) {
+      throw new Error(`Failed to load ${configPath}: ${error}`);
+    }
+  }
+}
+
+/**
+ * Identity helper giving type checking and completion in `shadcn-analyzer.config.ts`
+ */
+export function defineConfig(config: ProjectConfigFile): ProjectConfigFile {
+  return config;
+}
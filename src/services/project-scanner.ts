@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectInfo } from '../types';
+import { SHADCN_COMPONENTS } from '../utils/components';
+import { parseJsonc } from '../utils/jsonc';
+
+/**
+ * Files in `components/ui` that belong to another component
+ */
+const FILE_ALIASES: Record<string, string> = {
+  toaster: 'toast',
+  'use-toast': 'toast',
+};
+
+const COMPONENT_EXTENSIONS = ['.tsx', '.jsx', '.ts', '.js'];
+
+/**
+ * Finds the shadcn/ui components installed in a consuming app, using its `components.json`
+ * to locate the ui directory.
+ */
+export class ProjectScanner {
+  /**
+   * Scan a project directory for installed shadcn/ui components
+   */
+  scan(projectDir: string): ProjectInfo {
+    const root = path.resolve(projectDir);
+    const componentsJsonPath = path.join(root, 'components.json');
+
+    if (!fs.existsSync(componentsJsonPath)) {
+      throw new Error(`No components.json found in ${root}. Is this a shadcn/ui project?`);
+    }
+
+    const componentsJson = this.readJsonc(componentsJsonPath);
+    const aliases = componentsJson.aliases || {};
+    const uiAlias: string = aliases.ui || `${aliases.components || '@/components'}/ui`;
+
+    const uiDir = this.resolveAlias(root, uiAlias);
+    if (!uiDir) {
+      throw new Error(`Could not find the ui components directory for alias "${uiAlias}" in ${root}`);
+    }
+
+    const files = fs
+      .readdirSync(uiDir)
+      .filter((file) => COMPONENT_EXTENSIONS.includes(path.extname(file)) && !file.endsWith('.d.ts'))
+      .map((file) => path.basename(file, path.extname(file)));
+
+    // Every file is analyzed: the known list lags behind new shadcn/ui components, and missing
+    // one the app uses is worse than searching for a custom component that has no issues
+    const components = new Set(files.map((file) => FILE_ALIASES[file] || file));
+    const unrecognized = [...components].filter((name) => !SHADCN_COMPONENTS.includes(name));
+
+    return {
+      name: this.readProjectName(root),
+      directory: root,
+      ui_directory: uiDir,
+      components: [...components].sort(),
+      unrecognized_files: unrecognized.sort(),
+    };
+  }
+
+  /**
+   * Resolve an import alias such as `@/components/ui` to a directory, using the
+   * project's tsconfig/jsconfig `paths` first and common layouts as a fallback
+   */
+  private resolveAlias(root: string, alias: string): string | undefined {
+    const candidates: string[] = [];
+
+    for (const configFile of ['tsconfig.json', 'jsconfig.json']) {
+      const configPath = path.join(root, configFile);
+      if (!fs.existsSync(configPath)) {
+        continue;
+      }
+
+      const { paths, baseUrl, pathsDir } = this.readPathMappings(configPath);
+      Object.entries(paths).forEach(([pattern, targets]) => {
+        const prefix = pattern.replace(/\*$/, '');
+        if (!pattern.endsWith('*') || !alias.startsWith(prefix)) {
+          return;
+        }
+        const rest = alias.slice(prefix.length);
+        targets.forEach((target) => candidates.push(path.join(baseUrl ?? pathsDir, target.replace(/\*$/, rest))));
+      });
+    }
+
+    // Fall back to `@/x` or `~/x` mapping to `src/x` or `x`
+    const rest = alias.replace(/^[@~]\//, '');
+    candidates.push(path.join(root, 'src', rest), path.join(root, rest));
+
+    return candidates.find((candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isDirectory());
+  }
+
+  private readProjectName(root: string): string {
+    const packageJsonPath = path.join(root, 'package.json');
+    if (fs.existsSync(packageJsonPath)) {
+      try {
+        const name = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8')).name;
+        if (typeof name === 'string' && name.length > 0) {
+          return name;
+        }
+      } catch {
+        // Fall back to the directory name
+      }
+    }
+    return path.basename(root);
+  }
+
+  /**
+   * The `compilerOptions.paths` of a tsconfig/jsconfig, following its `extends` chain like
+   * TypeScript does: the nearest config setting `paths` or `baseUrl` wins. Targets are relative
+   * to `baseUrl`, or to the directory of the config that sets `paths` when there is none.
+   */
+  private readPathMappings(
+    configPath: string,
+    seen: Set<string> = new Set()
+  ): { paths: Record<string, string[]>; baseUrl?: string; pathsDir: string } {
+    const configDir = path.dirname(configPath);
+    seen.add(configPath);
+
+    const config = this.readJsonc(configPath);
+    const compilerOptions = config.compilerOptions || {};
+    let inherited: { paths: Record<string, string[]>; baseUrl?: string; pathsDir: string } = {
+      paths: {},
+      pathsDir: configDir,
+    };
+    const parents: string[] = typeof config.extends === 'string' ? [config.extends] : config.extends || [];
+    parents.forEach((parent) => {
+      const parentPath = this.resolveExtends(configDir, parent);
+      if (parentPath && !seen.has(parentPath)) {
+        inherited = this.readPathMappings(parentPath, seen);
+      }
+    });
+
+    return {
+      paths: compilerOptions.paths || inherited.paths,
+      baseUrl: compilerOptions.baseUrl ? path.join(configDir, compilerOptions.baseUrl) : inherited.baseUrl,
+      pathsDir: compilerOptions.paths ? configDir : inherited.pathsDir,
+    };
+  }
+
+  /**
+   * Path of a config named in `extends`: a relative path, with or without `.json`, or a package
+   */
+  private resolveExtends(configDir: string, name: string): string | undefined {
+    if (name.startsWith('.') || path.isAbsolute(name)) {
+      const resolved = path.resolve(configDir, name);
+      return [resolved, `${resolved}.json`].find(
+        (candidate) => fs.existsSync(candidate) && fs.statSync(candidate).isFile()
+      );
+    }
+
+    for (const request of [name, `${name}.json`, `${name}/tsconfig.json`]) {
+      try {
+        return require.resolve(request, { paths: [configDir] });
+      } catch {
+        // Try the next form
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Read a JSON file that may contain comments and trailing commas, as tsconfig files often do
+   */
+  private readJsonc(filePath: string): any {
+    try {
+      return parseJsonc(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to parse ${filePath}: ${error}`);
+    }
+  }
+}
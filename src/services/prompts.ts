@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { PromptTemplate } from '../types';
+import { COMPONENT_SUMMARY_SCHEMA, ISSUE_ANALYSIS_SCHEMA } from '../utils/schemas';
+
+type PromptPart = 'rubric' | 'system' | 'issue' | 'summarySystem' | 'summary';
+
+/**
+ * Built-in templates, shipped next to `src`/`dist`
+ */
+export const DEFAULT_PROMPTS_DIR = path.resolve(__dirname, '..', '..', 'prompts', 'default');
+
+/**
+ * Files of a template directory and the placeholders each may use
+ */
+const PROMPT_FILES: Record<PromptPart, { file: string; variables: string[] }> = {
+  rubric: { file: 'rubric.md', variables: ['component'] },
+  system: { file: 'system.md', variables: ['component', 'rubric'] },
+  issue: {
+    file: 'issue.md',
+    variables: ['component', 'title', 'url', 'repository', 'labels', 'body', 'discussion'],
+  },
+  summarySystem: { file: 'summary-system.md', variables: ['component'] },
+  summary: {
+    file: 'summary.md',
+    variables: ['component', 'critical_count', 'critical_issues', 'high_count', 'high_issues'],
+  },
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Loads the prompt templates and severity rubric used by the model-backed providers. A
+ * template directory may hold any subset of the template files; missing files fall back to
+ * the built-in ones, so overriding the rubric only takes a `rubric.md`.
+ */
+export class PromptTemplateService {
+  private templates = new Map<string, PromptTemplate>();
+
+  /**
+   * @param promptsDir Template directory used for all components
+   * @param componentDirs Template directories for specific components, keyed by lowercase name
+   */
+  constructor(
+    private promptsDir: string = DEFAULT_PROMPTS_DIR,
+    private componentDirs: Record<string, string> = {}
+  ) {}
+
+  /**
+   * Get the templates for a component
+   */
+  getTemplate(componentName: string): PromptTemplate {
+    return this.loadTemplate(this.componentDirs[componentName.toLowerCase()] || this.promptsDir);
+  }
+
+  /**
+   * Load and check a template directory
+   */
+  loadTemplate(dir: string): PromptTemplate {
+    const resolved = path.resolve(dir);
+    const loaded = this.templates.get(resolved);
+    if (loaded) {
+      return loaded;
+    }
+
+    if (!fs.existsSync(resolved) || !fs.statSync(resolved).isDirectory()) {
+      throw new Error(`Prompt template directory not found: ${dir}`);
+    }
+
+    const parts = {} as Record<PromptPart, string>;
+    const errors: string[] = [];
+    (Object.keys(PROMPT_FILES) as PromptPart[]).forEach((part) => {
+      const { file, variables } = PROMPT_FILES[part];
+      const custom = path.join(resolved, file);
+      const source = fs.existsSync(custom) ? custom : path.join(DEFAULT_PROMPTS_DIR, file);
+      parts[part] = fs.readFileSync(source, 'utf-8').trim();
+
+      [...parts[part].matchAll(PLACEHOLDER)]
+        .map((match) => match[1])
+        .filter((variable) => !variables.includes(variable))
+        .forEach((variable) => errors.push(`${file}: unknown placeholder {{${variable}}}`));
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid prompt templates in ${dir}:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    const template: PromptTemplate = {
+      name: this.readTemplateName(resolved),
+      hash: this.hashTemplate(parts),
+      ...parts,
+    };
+    this.templates.set(resolved, template);
+    return template;
+  }
+
+  /**
+   * Replace `{{placeholder}}`s with their values
+   */
+  render(text: string, values: Record<string, string | number>): string {
+    return text.replace(PLACEHOLDER, (placeholder, name: string) =>
+      values[name] !== undefined ? String(values[name]) : placeholder
+    );
+  }
+
+  /**
+   * Name and version from `template.json`, defaulting to the directory name
+   */
+  private readTemplateName(dir: string): string {
+    const metadataPath = path.join(dir, 'template.json');
+    if (!fs.existsSync(metadataPath)) {
+      return path.basename(dir);
+    }
+
+    try {
+      const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+      const name = typeof metadata.name === 'string' ? metadata.name : path.basename(dir);
+      return metadata.version !== undefined ? `${name}@${metadata.version}` : name;
+    } catch (error) {
+      throw new Error(`Failed to parse ${metadataPath}: ${error}`);
+    }
+  }
+
+  /**
+   * Hash of the templates and response schemas, so any change that can alter an analysis
+   * changes the hash
+   */
+  private hashTemplate(parts: Record<PromptPart, string>): string {
+    const content = JSON.stringify({ ...parts, schemas: [ISSUE_ANALYSIS_SCHEMA, COMPONENT_SUMMARY_SCHEMA] });
+    return createHash('sha256').update(content).digest('hex').slice(0, 12);
+  }
+}
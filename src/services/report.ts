@@ -1,8 +1,35 @@
-import { ComponentAnalysisReport, GitHubIssue, IssueAnalysis } from '../types';
+import {
+  AnalyzerLogger,
+  ComponentAnalysisReport,
+  CountChange,
+  DashboardReport,
+  FixStatus,
+  GitHubIssue,
+  IssueAnalysis,
+  IssueChange,
+  IssueChangeEvent,
+  ReportDiff,
+  Reporter,
+} from '../types';
+import { issueKey } from '../utils/issues';
+import { Logger } from '../utils/logger';
+import { analysisFailed, countsTowardSeverity, effectiveSeverity, severityRank } from '../utils/severity';
+import { formatUsage } from '../utils/usage';
 import * as fs from 'fs';
 import * as path from 'path';
 
+/**
+ * Fix statuses in the order critical issues are listed, most urgent first
+ */
+const FIX_STATUS_LABELS: Record<FixStatus, string> = {
+  'no-fix': '❌ No fix',
+  'fix-in-progress': '🔧 Fix in progress',
+  'fixed-unreleased': '✅ Fixed, unreleased',
+};
+
 export class ReportService {
+  constructor(private readonly logger: AnalyzerLogger = new Logger()) {}
+
   /**
    * Generate a markdown report for component analysis
    */
@@ -10,35 +37,71 @@ export class ReportService {
     const { component_name, analysis_date, total_issues, critical_issues, high_priority_issues, issues, summary } =
       report;
 
+    const failedIssues = issues.filter((item) => analysisFailed(item.analysis));
+    const analyzedIssues = issues.filter((item) => !analysisFailed(item.analysis));
+    const unrelatedIssues = issues.filter((item) => item.possibly_unrelated);
+    const relevantIssues = issues.filter(countsTowardSeverity);
+
     let markdown = '';
 
     // Header
     markdown += `# ${component_name} Component Analysis Report\n\n`;
     markdown += `**Generated on:** ${new Date(analysis_date).toLocaleDateString()}\n\n`;
+    if (report.prompt_template) {
+      markdown += `**Prompt template:** ${report.prompt_template} (\`${report.prompt_hash}\`)\n\n`;
+    }
 
     // Summary Statistics
     markdown += `## 📊 Summary\n\n`;
     markdown += `- **Total Issues Analyzed:** ${total_issues}\n`;
     markdown += `- **Critical Issues:** ${critical_issues} 🔴\n`;
     markdown += `- **High Priority Issues:** ${high_priority_issues} 🟠\n`;
-    markdown += `- **Medium/Low Priority Issues:** ${total_issues - critical_issues - high_priority_issues} 🟡\n\n`;
+    markdown += `- **Medium/Low Priority Issues:** ${
+      total_issues - critical_issues - high_priority_issues - failedIssues.length - unrelatedIssues.length
+    } 🟡\n`;
+    if (failedIssues.length > 0) {
+      markdown += `- **Failed Analyses:** ${failedIssues.length} ⚪ (not counted in any severity)\n`;
+    }
+    if (unrelatedIssues.length > 0) {
+      markdown += `- **Possibly Unrelated:** ${unrelatedIssues.length} ❔ (not counted in any severity)\n`;
+    }
+    if (report.not_analyzed?.length) {
+      markdown += `- **Not Analyzed:** ${report.not_analyzed.length} ⏸️ (run limit reached; not in the total)\n`;
+    }
+    const clusters = report.clusters || [];
+    if (clusters.length > 0) {
+      const grouped = clusters.reduce((sum, cluster) => sum + cluster.issues.length, 0);
+      markdown += `- **Distinct Problems:** ${total_issues - grouped + clusters.length} `;
+      markdown += `(${grouped} issues grouped into ${clusters.length} cluster${clusters.length === 1 ? '' : 's'})\n`;
+    }
+    markdown += `\n`;
+
+    markdown += this.formatClusterSection(report);
 
     // Critical Issues Section
     if (critical_issues > 0) {
       markdown += `## 🚨 Critical Issues\n\n`;
       markdown += `These issues prevent basic component usage or cause severe problems:\n\n`;
 
-      const criticalIssues = issues.filter(
-        (item) => item.analysis.is_critical || item.analysis.severity_level === 'critical'
+      const criticalIssues = this.sortByFixStatus(
+        relevantIssues.filter((item) => item.analysis.is_critical || item.analysis.severity_level === 'critical')
       );
+      markdown += this.formatFixStatusTable(criticalIssues);
 
       criticalIssues.forEach((item, index) => {
-        markdown += this.formatIssueSection(item.github_issue, item.analysis, index + 1, '🔴');
+        markdown += this.formatIssueSection(
+          item.github_issue,
+          item.analysis,
+          index + 1,
+          '🔴',
+          false,
+          item.cluster_id
+        );
       });
     }
 
     // High Priority Issues Section
-    const highPriorityIssues = issues.filter(
+    const highPriorityIssues = relevantIssues.filter(
       (item) => item.analysis.severity_level === 'high' && !item.analysis.is_critical
     );
     if (highPriorityIssues.length > 0) {
@@ -46,36 +109,78 @@ export class ReportService {
       markdown += `These issues significantly impact functionality but don't prevent basic usage:\n\n`;
 
       highPriorityIssues.forEach((item, index) => {
-        markdown += this.formatIssueSection(item.github_issue, item.analysis, index + 1, '🟠');
+        markdown += this.formatIssueSection(
+          item.github_issue,
+          item.analysis,
+          index + 1,
+          '🟠',
+          false,
+          item.cluster_id
+        );
       });
     }
 
     // Medium Priority Issues Section
-    const mediumPriorityIssues = issues.filter((item) => item.analysis.severity_level === 'medium');
+    const mediumPriorityIssues = relevantIssues.filter((item) => item.analysis.severity_level === 'medium');
     if (mediumPriorityIssues.length > 0) {
       markdown += `## 📋 Medium Priority Issues\n\n`;
       markdown += `<details>\n<summary>Click to expand medium priority issues (${mediumPriorityIssues.length} issues)</summary>\n\n`;
 
       mediumPriorityIssues.forEach((item, index) => {
-        markdown += this.formatIssueSection(item.github_issue, item.analysis, index + 1, '🟡', true);
+        markdown += this.formatIssueSection(item.github_issue, item.analysis, index + 1, '🟡', true, item.cluster_id);
       });
 
       markdown += `</details>\n\n`;
     }
 
     // Low Priority Issues Section
-    const lowPriorityIssues = issues.filter((item) => item.analysis.severity_level === 'low');
+    const lowPriorityIssues = relevantIssues.filter((item) => item.analysis.severity_level === 'low');
     if (lowPriorityIssues.length > 0) {
       markdown += `## 📝 Low Priority Issues\n\n`;
       markdown += `<details>\n<summary>Click to expand low priority issues (${lowPriorityIssues.length} issues)</summary>\n\n`;
 
       lowPriorityIssues.forEach((item, index) => {
-        markdown += this.formatIssueSection(item.github_issue, item.analysis, index + 1, '🟢', true);
+        markdown += this.formatIssueSection(item.github_issue, item.analysis, index + 1, '🟢', true, item.cluster_id);
       });
 
       markdown += `</details>\n\n`;
     }
 
+    // Failed Analyses Section
+    if (failedIssues.length > 0) {
+      markdown += `## ⚪ Failed Analyses\n\n`;
+      markdown += `These issues could not be analyzed and need manual review:\n\n`;
+      failedIssues.forEach((item) => {
+        const { github_issue: issue, analysis } = item;
+        markdown += `- [${issueKey(issue)}](${issue.html_url}) ${issue.title}`;
+        markdown += analysis.analysis_error ? ` — ${analysis.analysis_error}\n` : `\n`;
+      });
+      markdown += `\n`;
+    }
+
+    // Not Analyzed Section
+    if (report.not_analyzed?.length) {
+      markdown += `## ⏸️ Not Analyzed\n\n`;
+      markdown += `The run's budget or token limit was reached before these issues were analyzed:\n\n`;
+      report.not_analyzed.forEach((issue) => {
+        markdown += `- [${issueKey(issue)}](${issue.html_url}) ${issue.title}\n`;
+      });
+      markdown += `\n`;
+    }
+
+    // Possibly Unrelated Section
+    if (unrelatedIssues.length > 0) {
+      markdown += `## ❔ Possibly Unrelated\n\n`;
+      markdown += `These issues matched the search but seem to be about something other than ${component_name} `;
+      markdown += `(relevance below ${report.relevance_threshold ?? 'the threshold'}):\n\n`;
+      unrelatedIssues.forEach((item) => {
+        const { github_issue: issue, analysis } = item;
+        markdown += `- [${issueKey(issue)}](${issue.html_url}) ${issue.title} — relevance ${analysis.relevance_score}`;
+        markdown += analysis.relevance_reason ? `: ${analysis.relevance_reason}\n` : `\n`;
+      });
+      markdown += `\n`;
+    }
+
     // Analysis Summary
     markdown += `## 🔍 Analysis Summary\n\n`;
 
@@ -105,24 +210,60 @@ export class ReportService {
 
     // Confidence Score Distribution
     markdown += `## 📈 Analysis Confidence\n\n`;
-    const avgConfidence = issues.reduce((sum, item) => sum + item.analysis.confidence_score, 0) / issues.length;
+    const avgConfidence =
+      analyzedIssues.length > 0
+        ? analyzedIssues.reduce((sum, item) => sum + item.analysis.confidence_score, 0) / analyzedIssues.length
+        : 0;
     markdown += `**Average Confidence Score:** ${avgConfidence.toFixed(1)}%\n\n`;
 
-    const confidenceDistribution = this.getConfidenceDistribution(issues);
+    const confidenceDistribution = this.getConfidenceDistribution(analyzedIssues);
     markdown += `**Confidence Distribution:**\n`;
     Object.entries(confidenceDistribution).forEach(([range, count]) => {
       markdown += `- ${range}: ${count} issues\n`;
     });
     markdown += `\n`;
 
+    markdown += this.formatWorkaroundsAppendix(relevantIssues);
+
     // Footer
     markdown += `---\n\n`;
     markdown += `*This report was generated automatically using GitHub API and OpenAI analysis.*\n`;
     markdown += `*Last updated: ${new Date(analysis_date).toISOString()}*\n`;
+    if (report.usage) {
+      markdown += `*Token usage: ${formatUsage(report.usage)}*\n`;
+    }
 
     return markdown;
   }
 
+  /**
+   * Format the table of issue clusters, linking every issue in each one
+   */
+  private formatClusterSection(report: ComponentAnalysisReport): string {
+    const clusters = report.clusters || [];
+    if (clusters.length === 0) {
+      return '';
+    }
+
+    const urls = new Map(report.issues.map((item) => [issueKey(item.github_issue), item.github_issue.html_url]));
+    const link = (key: string) => (urls.has(key) ? `[${key}](${urls.get(key)})` : key);
+
+    let section = `## 🧩 Problem Clusters\n\n`;
+    section += `These issues appear to describe the same problem. Severity counts above include every issue.\n\n`;
+    section += `| Cluster | Canonical Issue | Issues | Highest Severity | Critical | Shared Terms |\n`;
+    section += `|---------|-----------------|--------|------------------|----------|--------------|\n`;
+    clusters.forEach((cluster) => {
+      const title = cluster.title.replace(/\|/g, '\\|');
+      const others = cluster.issues.slice(1).map(link).join(', ');
+      section += `| ${cluster.cluster_id} | ${link(cluster.canonical_issue)} ${title} `;
+      section += `| ${cluster.issues.length}: ${others} | ${cluster.highest_severity.toUpperCase()} `;
+      section += `| ${cluster.critical_issues} | ${cluster.keywords.join(', ')} |\n`;
+    });
+    section += `\n`;
+
+    return section;
+  }
+
   /**
    * Format a single issue section
    */
@@ -131,21 +272,26 @@ export class ReportService {
     analysis: IssueAnalysis,
     index: number,
     emoji: string,
-    compact: boolean = false
+    compact: boolean = false,
+    clusterId?: number
   ): string {
     let section = '';
+    const cluster = clusterId !== undefined ? ` | **Cluster:** ${clusterId}` : '';
 
     if (compact) {
       section += `### ${emoji} ${index}. [${issue.title}](${issue.html_url})\n\n`;
-      section += `**Severity:** ${analysis.severity_level.toUpperCase()} | **Confidence:** ${
+      section += `**${issueKey(issue)}** | **Severity:** ${analysis.severity_level.toUpperCase()} | **Confidence:** ${
         analysis.confidence_score
-      }%\n\n`;
+      }%${cluster}\n\n`;
+      section += this.formatLinkedPullRequests(issue);
+      section += this.formatFixes(analysis);
       section += `${analysis.reasoning}\n\n`;
     } else {
       section += `### ${emoji} ${index}. [${issue.title}](${issue.html_url})\n\n`;
-      section += `**Issue #${
-        issue.number
-      }** | **Severity:** ${analysis.severity_level.toUpperCase()} | **Confidence:** ${analysis.confidence_score}%\n\n`;
+      section += `**Issue ${issueKey(issue)}** | **Severity:** ${analysis.severity_level.toUpperCase()} | `;
+      section += `**Confidence:** ${analysis.confidence_score}%${cluster}\n\n`;
+      section += this.formatLinkedPullRequests(issue);
+      section += this.formatFixes(analysis);
 
       // Labels
       if (issue.labels.length > 0) {
@@ -168,6 +314,11 @@ export class ReportService {
 
       section += `**Impact:** ${analysis.impact_description}\n\n`;
 
+      const discussion = this.formatDiscussionFacts(analysis);
+      if (discussion) {
+        section += `**Discussion:** ${discussion}\n\n`;
+      }
+
       // Issue details
       section += `**Created:** ${new Date(issue.created_at).toLocaleDateString()}\n`;
       section += `**Updated:** ${new Date(issue.updated_at).toLocaleDateString()}\n`;
@@ -179,6 +330,131 @@ export class ReportService {
     return section;
   }
 
+  /**
+   * Order issues by fix status as in FIX_STATUS_LABELS, keeping issues without one last
+   */
+  private sortByFixStatus(issues: ComponentAnalysisReport['issues']): ComponentAnalysisReport['issues'] {
+    const order = Object.keys(FIX_STATUS_LABELS);
+    const rank = (item: ComponentAnalysisReport['issues'][number]) =>
+      item.github_issue.fix_status ? order.indexOf(item.github_issue.fix_status) : order.length;
+    return [...issues].sort((a, b) => rank(a) - rank(b));
+  }
+
+  /**
+   * Format a table grouping issues by fix status, so it is clear which ones are being worked on.
+   * Reports saved before linked pull requests were tracked have no fix status and get no table.
+   */
+  private formatFixStatusTable(issues: ComponentAnalysisReport['issues']): string {
+    const withStatus = issues.filter((item) => item.github_issue.fix_status);
+    if (withStatus.length === 0) {
+      return '';
+    }
+
+    let table = `| Fix Status | Issues |\n`;
+    table += `|------------|--------|\n`;
+    (Object.entries(FIX_STATUS_LABELS) as Array<[FixStatus, string]>).forEach(([status, label]) => {
+      const matching = withStatus.filter((item) => item.github_issue.fix_status === status);
+      if (matching.length > 0) {
+        const links = matching.map(({ github_issue: issue }) => `[${issueKey(issue)}](${issue.html_url})`);
+        table += `| ${label} (${matching.length}) | ${links.join(', ')} |\n`;
+      }
+    });
+
+    return `${table}\n`;
+  }
+
+  /**
+   * Format the fix status and linked pull requests of an issue
+   */
+  private formatLinkedPullRequests(issue: GitHubIssue): string {
+    if (!issue.fix_status) {
+      return '';
+    }
+
+    const pullRequests = (issue.linked_pull_requests || []).map((pullRequest) => {
+      const merged = pullRequest.merged_at ? ` ${new Date(pullRequest.merged_at).toLocaleDateString()}` : '';
+      return `[${issueKey(pullRequest)}](${pullRequest.html_url}) (${pullRequest.state}${merged})`;
+    });
+    return `**Fix Status:** ${FIX_STATUS_LABELS[issue.fix_status]}${
+      pullRequests.length > 0 ? ` — ${pullRequests.join(', ')}` : ''
+    }\n\n`;
+  }
+
+  /**
+   * Format the fix and workarounds of an issue, shown before its analysis so readers blocked by
+   * the issue find them first. Snippets are left to the Known Workarounds appendix.
+   */
+  private formatFixes(analysis: IssueAnalysis): string {
+    let section = '';
+    const fix = [analysis.fix_version && `v${analysis.fix_version.replace(/^v/, '')}`, analysis.fix_commit]
+      .filter(Boolean)
+      .join(' — ');
+    if (fix) {
+      section += `**✅ Fixed in:** ${fix}\n\n`;
+    }
+
+    const workarounds = analysis.workarounds || [];
+    if (workarounds.length > 0) {
+      section += `**🩹 Workarounds:**\n`;
+      workarounds.forEach((workaround) => {
+        section += `- *${workaround.type.replace('_', ' ')}:* ${workaround.description}`;
+        section += workaround.source ? ` (${workaround.source})\n` : `\n`;
+      });
+      section += `\n`;
+    }
+
+    return section;
+  }
+
+  /**
+   * Format the appendix collecting every workaround with its snippet, most severe issues first
+   */
+  private formatWorkaroundsAppendix(issues: ComponentAnalysisReport['issues']): string {
+    const withWorkarounds = issues
+      .filter((item) => countsTowardSeverity(item) && (item.analysis.workarounds || []).length > 0)
+      .sort((a, b) => severityRank(effectiveSeverity(b.analysis)) - severityRank(effectiveSeverity(a.analysis)));
+    if (withWorkarounds.length === 0) {
+      return '';
+    }
+
+    let section = `## 🩹 Known Workarounds\n\n`;
+    withWorkarounds.forEach(({ github_issue: issue, analysis }) => {
+      section += `### [${issueKey(issue)}](${issue.html_url}) ${issue.title}\n\n`;
+      section += `**Severity:** ${analysis.severity_level.toUpperCase()}`;
+      section += analysis.fix_version ? ` | **Fixed in:** v${analysis.fix_version.replace(/^v/, '')}\n\n` : `\n\n`;
+      analysis.workarounds!.forEach((workaround) => {
+        section += `- **${workaround.type.replace('_', ' ')}:** ${workaround.description}`;
+        section += workaround.source ? ` (${workaround.source})\n` : `\n`;
+        if (workaround.snippet) {
+          const language = workaround.type === 'css' ? 'css' : '';
+          section += `\n  \`\`\`${language}\n${workaround.snippet.replace(/^/gm, '  ')}\n  \`\`\`\n`;
+        }
+      });
+      section += `\n`;
+    });
+
+    return section;
+  }
+
+  /**
+   * Format the comment-derived facts of an analysis, if any were recorded
+   */
+  private formatDiscussionFacts(analysis: IssueAnalysis): string {
+    if (analysis.maintainer_responded === undefined) {
+      return '';
+    }
+
+    const facts = [
+      analysis.maintainer_responded ? '👤 Maintainer responded' : '👤 No maintainer response',
+      analysis.confirmed_by_others ? '👥 Confirmed by others' : '👥 Not confirmed by others',
+    ];
+    if (analysis.fix_mentioned) {
+      facts.push('🔧 Fix mentioned');
+    }
+
+    return facts.join(' | ');
+  }
+
   /**
    * Get confidence score distribution
    */
@@ -215,9 +491,9 @@ export class ReportService {
       const markdown = this.generateMarkdownReport(report);
       fs.writeFileSync(outputPath, markdown, 'utf-8');
 
-      console.log(`✅ Report saved to: ${outputPath}`);
+      this.logger.success(`Report saved to: ${outputPath}`);
     } catch (error) {
-      console.error('Error saving report:', error);
+      this.logger.error(`Error saving report: ${error}`);
       throw new Error(`Failed to save report: ${error}`);
     }
   }
@@ -235,24 +511,311 @@ export class ReportService {
       const jsonContent = JSON.stringify(report, null, 2);
       fs.writeFileSync(outputPath, jsonContent, 'utf-8');
 
-      console.log(`✅ JSON report saved to: ${outputPath}`);
+      this.logger.success(`JSON report saved to: ${outputPath}`);
     } catch (error) {
-      console.error('Error saving JSON report:', error);
+      this.logger.error(`Error saving JSON report: ${error}`);
       throw new Error(`Failed to save JSON report: ${error}`);
     }
   }
 
+  /**
+   * Load a JSON report written by `saveJsonReport`
+   */
+  loadJsonReport(reportPath: string): ComponentAnalysisReport {
+    try {
+      const report = JSON.parse(fs.readFileSync(reportPath, 'utf-8')) as ComponentAnalysisReport;
+      if (!report.component_name || !Array.isArray(report.issues)) {
+        throw new Error('not a component analysis report');
+      }
+      return report;
+    } catch (error) {
+      throw new Error(`Failed to load report ${reportPath}: ${error}`);
+    }
+  }
+
+  /**
+   * Save a report rendered by a reporter
+   */
+  async saveFormattedReport(report: ComponentAnalysisReport, reporter: Reporter, outputPath: string): Promise<void> {
+    try {
+      const dir = path.dirname(outputPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      fs.writeFileSync(outputPath, reporter.render(report), 'utf-8');
+
+      this.logger.success(`${reporter.description} saved to: ${outputPath}`);
+    } catch (error) {
+      this.logger.error(`Error saving ${reporter.format} report: ${error}`);
+      throw new Error(`Failed to save ${reporter.format} report: ${error}`);
+    }
+  }
+
+  /**
+   * Generate a markdown dashboard ranking components by critical and high priority issues.
+   * Report links are written relative to `baseDir`, the directory the dashboard is saved in.
+   */
+  generateDashboardMarkdown(dashboard: DashboardReport, baseDir: string = '.'): string {
+    let markdown = '';
+
+    const { project } = dashboard;
+
+    markdown += project ? `# Project Risk Report: ${project.name}\n\n` : `# Component Issue Dashboard\n\n`;
+    markdown += `**Generated on:** ${new Date(dashboard.analysis_date).toLocaleDateString()}\n\n`;
+
+    if (project) {
+      markdown += `**Project:** \`${project.directory}\`\n\n`;
+      markdown += `**UI components:** \`${project.ui_directory}\` (${project.components.length} shadcn/ui components installed)\n\n`;
+    }
+
+    markdown += `## 📊 Summary\n\n`;
+    markdown += `- **Components Analyzed:** ${dashboard.total_components}\n`;
+    markdown += `- **Total Issues Analyzed:** ${dashboard.total_issues}\n`;
+    markdown += `- **Critical Issues:** ${dashboard.critical_issues} 🔴\n`;
+    markdown += `- **High Priority Issues:** ${dashboard.high_priority_issues} 🟠\n\n`;
+
+    markdown += `## 🏆 Components by Risk\n\n`;
+    markdown += `| # | Component | 🔴 Critical | 🟠 High | Total | Reports |\n`;
+    markdown += `|---|-----------|-------------|---------|-------|---------|\n`;
+
+    dashboard.components.forEach((entry, index) => {
+      let reports = '—';
+      if (entry.report_paths) {
+        reports = Object.entries(entry.report_paths)
+          .map(([format, reportPath]) => {
+            const link = path.relative(baseDir, reportPath).split(path.sep).join('/');
+            return `[${format.toUpperCase()}](${link})`;
+          })
+          .join(' · ');
+      } else if (entry.error) {
+        reports = `⚠️ ${entry.error.replace(/\|/g, '\\|')}`;
+      }
+
+      markdown += `| ${index + 1} | ${entry.component_name} | ${entry.critical_issues} | ${
+        entry.high_priority_issues
+      } | ${entry.total_issues} | ${reports} |\n`;
+    });
+    markdown += `\n`;
+
+    if (project && project.unrecognized_files.length > 0) {
+      markdown += `## ❔ Unrecognized Components\n\n`;
+      markdown += `These files in the ui directory aren't known shadcn/ui components. They were analyzed `;
+      markdown += `anyway; custom components may have no matching issues:\n\n`;
+      project.unrecognized_files.forEach((file) => {
+        markdown += `- \`${file}\`\n`;
+      });
+      markdown += `\n`;
+    }
+
+    markdown += `---\n\n`;
+    markdown += `*This dashboard was generated automatically using GitHub API and OpenAI analysis.*\n`;
+    markdown += `*Last updated: ${new Date(dashboard.analysis_date).toISOString()}*\n`;
+    if (dashboard.usage) {
+      markdown += `*Token usage: ${formatUsage(dashboard.usage)}*\n`;
+    }
+
+    return markdown;
+  }
+
+  /**
+   * Save dashboard report to file
+   */
+  async saveDashboardReport(dashboard: DashboardReport, outputPath: string): Promise<void> {
+    try {
+      const dir = path.dirname(outputPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      const markdown = this.generateDashboardMarkdown(dashboard, dir);
+      fs.writeFileSync(outputPath, markdown, 'utf-8');
+
+      this.logger.success(`Dashboard saved to: ${outputPath}`);
+    } catch (error) {
+      this.logger.error(`Error saving dashboard: ${error}`);
+      throw new Error(`Failed to save dashboard: ${error}`);
+    }
+  }
+
+  /**
+   * Save dashboard report as JSON
+   */
+  async saveDashboardJsonReport(dashboard: DashboardReport, outputPath: string): Promise<void> {
+    try {
+      const dir = path.dirname(outputPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      fs.writeFileSync(outputPath, JSON.stringify(dashboard, null, 2), 'utf-8');
+
+      this.logger.success(`JSON dashboard saved to: ${outputPath}`);
+    } catch (error) {
+      this.logger.error(`Error saving JSON dashboard: ${error}`);
+      throw new Error(`Failed to save JSON dashboard: ${error}`);
+    }
+  }
+
+  /**
+   * Generate a markdown report of the changes between two analyses of a component
+   */
+  generateDiffMarkdown(diff: ReportDiff): string {
+    const { counts } = diff;
+    let markdown = '';
+
+    markdown += `# ${diff.component_name} Changes Report\n\n`;
+    markdown += `**Compared:** ${new Date(diff.old_analysis_date).toLocaleDateString()} → ${new Date(
+      diff.new_analysis_date
+    ).toLocaleDateString()}\n\n`;
+    if (diff.old_prompt_template !== diff.new_prompt_template) {
+      markdown += `> ⚠️ The reports were produced by different prompt templates `;
+      markdown += `(${diff.old_prompt_template || 'unknown'} → ${diff.new_prompt_template || 'unknown'}), `;
+      markdown += `so severity changes may come from the rubric rather than the issues.\n\n`;
+    }
+
+    markdown += `## 📊 Net Changes\n\n`;
+    markdown += `| Metric | Before | After | Change |\n`;
+    markdown += `|--------|--------|-------|--------|\n`;
+    markdown += this.formatCountRow('Total Issues', counts.total_issues);
+    markdown += this.formatCountRow('Critical Issues 🔴', counts.critical_issues);
+    markdown += this.formatCountRow('High Priority Issues 🟠', counts.high_priority_issues);
+    markdown += `\n`;
+
+    markdown += this.formatChangeList('🚨 Newly Critical Issues', diff.newly_critical);
+    markdown += this.formatChangeList('⬆️ Severity Escalations', diff.escalations);
+    markdown += this.formatChangeList('⬇️ Severity Downgrades', diff.downgrades);
+    markdown += this.formatChangeList('✅ Resolved (Closed) Issues', diff.resolved);
+    markdown += this.formatChangeList('🆕 New Issues', diff.new_issues);
+    markdown += this.formatChangeList('👋 No Longer Reported', diff.no_longer_reported);
+
+    markdown += `---\n\n`;
+    markdown += `*This report compares analyses from ${diff.old_analysis_date} and ${diff.new_analysis_date}.*\n`;
+
+    return markdown;
+  }
+
+  private formatCountRow(label: string, count: CountChange): string {
+    const change = count.change > 0 ? `+${count.change}` : `${count.change}`;
+    return `| ${label} | ${count.before} | ${count.after} | ${change} |\n`;
+  }
+
+  private formatChangeList(title: string, changes: IssueChange[]): string {
+    let section = `## ${title} (${changes.length})\n\n`;
+
+    if (changes.length === 0) {
+      return section + `_None_\n\n`;
+    }
+
+    changes.forEach((change) => {
+      const severity =
+        change.old_severity && change.new_severity && change.old_severity !== change.new_severity
+          ? `${change.old_severity.toUpperCase()} → ${change.new_severity.toUpperCase()}`
+          : (change.new_severity || change.old_severity || '').toUpperCase();
+      section += `- [${change.repository}#${change.number} ${change.title}](${change.html_url}) — ${severity}\n`;
+    });
+
+    return section + `\n`;
+  }
+
+  /**
+   * Save a diff report as markdown
+   */
+  async saveDiffReport(diff: ReportDiff, outputPath: string): Promise<void> {
+    try {
+      const dir = path.dirname(outputPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      fs.writeFileSync(outputPath, this.generateDiffMarkdown(diff), 'utf-8');
+
+      this.logger.success(`Diff report saved to: ${outputPath}`);
+    } catch (error) {
+      this.logger.error(`Error saving diff report: ${error}`);
+      throw new Error(`Failed to save diff report: ${error}`);
+    }
+  }
+
+  /**
+   * Save a diff report as JSON
+   */
+  async saveDiffJsonReport(diff: ReportDiff, outputPath: string): Promise<void> {
+    try {
+      const dir = path.dirname(outputPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      fs.writeFileSync(outputPath, JSON.stringify(diff, null, 2), 'utf-8');
+
+      this.logger.success(`JSON diff report saved to: ${outputPath}`);
+    } catch (error) {
+      this.logger.error(`Error saving JSON diff report: ${error}`);
+      throw new Error(`Failed to save JSON diff report: ${error}`);
+    }
+  }
+
+  /**
+   * Append change events to a change log, one JSON object per line
+   */
+  appendChangeLog(events: IssueChangeEvent[], outputPath: string): void {
+    if (events.length === 0) {
+      return;
+    }
+
+    try {
+      const dir = path.dirname(outputPath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+
+      fs.appendFileSync(outputPath, events.map((event) => `${JSON.stringify(event)}\n`).join(''), 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to append to change log: ${error}`);
+    }
+  }
+
+  /**
+   * Generate a quick summary of a diff for console output
+   */
+  generateDiffConsoleSummary(diff: ReportDiff): string {
+    const { counts } = diff;
+    const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+    let summary = `\n📈 Changes for ${diff.component_name}:\n`;
+    summary += `   Total Issues: ${counts.total_issues.after} (${signed(counts.total_issues.change)})\n`;
+    summary += `   🔴 Critical: ${counts.critical_issues.after} (${signed(counts.critical_issues.change)})\n`;
+    summary += `   🟠 High Priority: ${counts.high_priority_issues.after} (${signed(counts.high_priority_issues.change)})\n`;
+    summary += `   🚨 Newly Critical: ${diff.newly_critical.length}\n`;
+    summary += `   ⬆️  Escalations: ${diff.escalations.length} | ⬇️  Downgrades: ${diff.downgrades.length}\n`;
+    summary += `   ✅ Resolved: ${diff.resolved.length} | 🆕 New: ${diff.new_issues.length}\n`;
+
+    return summary;
+  }
+
   /**
    * Generate a quick summary for console output
    */
   generateConsoleSummary(report: ComponentAnalysisReport): string {
     const { component_name, total_issues, critical_issues, high_priority_issues } = report;
+    const failed = report.failed_analyses ?? 0;
+    const unrelated = report.possibly_unrelated ?? 0;
 
     let summary = `\n📊 Analysis Summary for ${component_name}:\n`;
     summary += `   Total Issues: ${total_issues}\n`;
     summary += `   🔴 Critical: ${critical_issues}\n`;
     summary += `   🟠 High Priority: ${high_priority_issues}\n`;
-    summary += `   🟡 Medium/Low: ${total_issues - critical_issues - high_priority_issues}\n`;
+    summary += `   🟡 Medium/Low: ${total_issues - critical_issues - high_priority_issues - failed - unrelated}\n`;
+    if (failed > 0) {
+      summary += `   ⚪ Failed (needs manual review): ${failed}\n`;
+    }
+    if (report.not_analyzed?.length) {
+      summary += `   ⏸️  Not analyzed (run limit reached): ${report.not_analyzed.length}\n`;
+    }
+    if (unrelated > 0) {
+      summary += `   ❔ Possibly unrelated: ${unrelated}\n`;
+    }
 
     if (critical_issues > 0) {
       summary += `\n⚠️  WARNING: ${critical_issues} critical issues found that may prevent basic component usage!\n`;
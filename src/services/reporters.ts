@@ -0,0 +1,258 @@
+import { ComponentAnalysisReport, Reporter } from '../types';
+import { issueKey, issueRepository } from '../utils/issues';
+import { analysisFailed, countsTowardSeverity } from '../utils/severity';
+import { HtmlReportRenderer } from './html-report';
+import { ReportService } from './report';
+
+export const DEFAULT_REPORT_FORMATS = ['md', 'json'];
+
+/**
+ * Comma-separated values, one row per issue, for spreadsheet triage
+ */
+export class CsvReporter implements Reporter {
+  readonly format = 'csv';
+  readonly extension = 'csv';
+  readonly description = 'CSV, one row per issue';
+
+  render(report: ComponentAnalysisReport): string {
+    const header = [
+      'component',
+      'repository',
+      'number',
+      'title',
+      'url',
+      'state',
+      'severity',
+      'is_critical',
+      'confidence',
+      'labels',
+      'created_at',
+      'updated_at',
+      'comments',
+      'affected_functionality',
+      'reasoning',
+      'impact_description',
+      'maintainer_responded',
+      'confirmed_by_others',
+      'fix_mentioned',
+      'analysis_status',
+      'cluster_id',
+      'relevance_score',
+      'relevance_reason',
+      'possibly_unrelated',
+      'fix_version',
+      'fix_commit',
+      'workarounds',
+      'fix_status',
+      'linked_pull_requests',
+    ];
+
+    const rows = report.issues.map(({ github_issue: issue, analysis, cluster_id, possibly_unrelated }) => [
+      report.component_name,
+      issueRepository(issue),
+      issue.number,
+      issue.title,
+      issue.html_url,
+      issue.state,
+      analysis.severity_level,
+      analysis.is_critical,
+      analysis.confidence_score,
+      issue.labels.map((label) => label.name).join('; '),
+      issue.created_at,
+      issue.updated_at,
+      issue.comments,
+      analysis.affected_functionality.join('; '),
+      analysis.reasoning,
+      analysis.impact_description,
+      analysis.maintainer_responded,
+      analysis.confirmed_by_others,
+      analysis.fix_mentioned,
+      analysis.analysis_status,
+      cluster_id,
+      analysis.relevance_score,
+      analysis.relevance_reason,
+      possibly_unrelated,
+      analysis.fix_version,
+      analysis.fix_commit,
+      (analysis.workarounds || []).map((workaround) => `${workaround.type}: ${workaround.description}`).join('; '),
+      issue.fix_status,
+      (issue.linked_pull_requests || [])
+        .map((pullRequest) => `${issueKey(pullRequest)} (${pullRequest.state})`)
+        .join('; '),
+    ]);
+
+    return [header, ...rows].map((row) => row.map((value) => this.escape(value)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Quote a value for CSV. Text from issues starting with a formula character is prefixed with
+   * `'`, so spreadsheets show it instead of evaluating it.
+   */
+  private escape(value: unknown): string {
+    let text = value === undefined || value === null ? '' : String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+/**
+ * Newline-delimited JSON, one issue per line, for log pipelines
+ */
+export class NdjsonReporter implements Reporter {
+  readonly format = 'ndjson';
+  readonly extension = 'ndjson';
+  readonly description = 'NDJSON, one issue per line';
+
+  render(report: ComponentAnalysisReport): string {
+    return report.issues
+      .map((item) =>
+        JSON.stringify({
+          component_name: report.component_name,
+          analysis_date: report.analysis_date,
+          issue: item.github_issue,
+          analysis: item.analysis,
+          cluster_id: item.cluster_id,
+          possibly_unrelated: item.possibly_unrelated,
+        })
+      )
+      .map((line) => `${line}\n`)
+      .join('');
+  }
+}
+
+/**
+ * JUnit XML for CI dashboards. Each issue is a test case; critical issues are failures,
+ * issues that could not be analyzed are errors and possibly unrelated issues are skipped.
+ */
+export class JUnitReporter implements Reporter {
+  readonly format = 'junit';
+  readonly extension = 'junit.xml';
+  readonly description = 'JUnit XML, critical issues as failures';
+
+  render(report: ComponentAnalysisReport): string {
+    const suiteName = `shadcn-analyzer.${report.component_name}`;
+    const isCritical = (item: ComponentAnalysisReport['issues'][number]) =>
+      countsTowardSeverity(item) && (item.analysis.is_critical || item.analysis.severity_level === 'critical');
+    const failures = report.issues.filter(isCritical).length;
+    const errors = report.issues.filter((item) => analysisFailed(item.analysis)).length;
+    const skipped = report.issues.filter((item) => item.possibly_unrelated).length;
+
+    const testCases = report.issues.map((item) => {
+      const { github_issue: issue, analysis } = item;
+      const name = this.escape(`${issueKey(issue)} ${issue.title}`);
+      let testCase = `    <testcase classname="${this.escape(suiteName)}" name="${name}">\n`;
+
+      if (analysisFailed(analysis)) {
+        const message = this.escape(analysis.analysis_error || 'Analysis failed');
+        testCase += `      <error type="analysis_failed" message="${message}">`;
+        testCase += this.escape(issue.html_url);
+        testCase += `</error>\n`;
+      } else if (item.possibly_unrelated) {
+        testCase += `      <skipped message="${this.escape(analysis.relevance_reason || 'Possibly unrelated')}"/>\n`;
+      } else if (isCritical(item)) {
+        testCase += `      <failure type="critical" message="${this.escape(analysis.impact_description)}">`;
+        testCase += this.escape(`${analysis.reasoning}\n\n${issue.html_url}`);
+        testCase += `</failure>\n`;
+      }
+
+      testCase += `      <system-out>${this.escape(
+        `Severity: ${analysis.severity_level} | Confidence: ${analysis.confidence_score}% | ${issue.html_url}`
+      )}</system-out>\n`;
+      testCase += `    </testcase>\n`;
+      return testCase;
+    });
+
+    let xml = `<?xml version="1.0" encoding="UTF-8"?>\n`;
+    xml += `<testsuites name="shadcn-analyzer" tests="${report.issues.length}" failures="${failures}" `;
+    xml += `errors="${errors}">\n`;
+    xml += `  <testsuite name="${this.escape(suiteName)}" tests="${report.issues.length}" failures="${failures}" `;
+    xml += `errors="${errors}" skipped="${skipped}" timestamp="${report.analysis_date}">\n`;
+    xml += testCases.join('');
+    xml += `  </testsuite>\n`;
+    xml += `</testsuites>\n`;
+
+    return xml;
+  }
+
+  private escape(value: string): string {
+    return (
+      value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // Control characters other than tab and newlines are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    );
+  }
+}
+
+/**
+ * Registry of report formats available to `analyze --format`
+ */
+export class ReporterRegistry {
+  private reporters = new Map<string, Reporter>();
+
+  constructor(reportService: ReportService = new ReportService()) {
+    const htmlRenderer = new HtmlReportRenderer();
+
+    this.register({
+      format: 'md',
+      extension: 'md',
+      description: 'Markdown report',
+      render: (report) => reportService.generateMarkdownReport(report),
+    });
+    this.register({
+      format: 'json',
+      extension: 'json',
+      description: 'Full JSON report',
+      render: (report) => JSON.stringify(report, null, 2),
+    });
+    this.register({
+      format: 'html',
+      extension: 'html',
+      description: 'Self-contained interactive HTML report',
+      render: (report) => htmlRenderer.render(report),
+    });
+    this.register(new CsvReporter());
+    this.register(new NdjsonReporter());
+    this.register(new JUnitReporter());
+  }
+
+  /**
+   * Add a reporter, replacing any existing one for the same format
+   */
+  register(reporter: Reporter): void {
+    this.reporters.set(reporter.format, reporter);
+  }
+
+  get(format: string): Reporter {
+    const reporter = this.reporters.get(format);
+    if (!reporter) {
+      throw new Error(`Unknown report format "${format}". Available formats: ${this.getFormats().join(', ')}`);
+    }
+    return reporter;
+  }
+
+  getFormats(): string[] {
+    return [...this.reporters.keys()];
+  }
+
+  getReporters(): Reporter[] {
+    return [...this.reporters.values()];
+  }
+
+  /**
+   * Parse a comma-separated format list such as "md,json,csv", rejecting unknown formats
+   */
+  parseFormats(formats: string): string[] {
+    const parsed = [...new Set(formats.split(',').map((format) => format.trim().toLowerCase()))].filter(
+      (format) => format.length > 0
+    );
+    parsed.forEach((format) => this.get(format));
+    return parsed;
+  }
+}
@@ -0,0 +1,206 @@
+import { AnalyzerLogger } from '../types';
+import { Logger } from '../utils/logger';
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+export interface RequestSchedulerOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  logger?: AnalyzerLogger;
+}
+
+/**
+ * Runs GitHub and LLM requests with a shared concurrency limit. Rate-limited (429, GitHub
+ * primary and secondary limits) and transient (5xx, network) failures are retried, waiting for
+ * `Retry-After` or the rate-limit reset when the response gives one, and otherwise backing off
+ * exponentially with jitter. A rate limit pauses every request to the same service, not just
+ * the one that hit it.
+ */
+export class RequestScheduler {
+  private readonly concurrency: number;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly logger: AnalyzerLogger;
+  private active = 0;
+  private queue: Array<() => void> = [];
+  private pausedUntil = new Map<string, number>();
+
+  constructor(options: RequestSchedulerOptions = {}) {
+    this.concurrency = Math.max(1, options.concurrency ?? 5);
+    this.maxRetries = Math.max(0, options.maxRetries ?? 5);
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 60000;
+    this.logger = options.logger || new Logger();
+  }
+
+  /**
+   * Run a request for `service` (such as "github" or "openai") once a slot is free, retrying
+   * retryable failures. The last error is rethrown when the retries run out.
+   */
+  async schedule<T>(service: string, label: string, task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await this.waitForPause(service);
+
+        try {
+          return await task();
+        } catch (error) {
+          if (attempt >= this.maxRetries || !this.isRetryable(error)) {
+            throw error;
+          }
+
+          const rateLimited = this.isRateLimited(error);
+          const delay = this.getRetryDelay(error, attempt);
+          const reason = rateLimited ? 'rate limited' : `failed (${this.describeError(error)})`;
+          this.logger.warning(
+            `${label} ${reason}; retrying in ${this.formatDelay(delay)} (attempt ${attempt + 2}/${this.maxRetries + 1})`
+          );
+
+          if (rateLimited) {
+            this.pause(service, delay);
+          } else {
+            await this.sleep(delay);
+          }
+        }
+      }
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Hold new requests to a service until `resetAt` (epoch milliseconds), for example when a
+   * response reports that no rate-limit calls remain
+   */
+  pauseUntil(service: string, resetAt: number, reason: string): void {
+    const delay = resetAt - Date.now();
+    if (delay <= 0 || (this.pausedUntil.get(service) ?? 0) >= resetAt) {
+      return;
+    }
+
+    this.logger.warning(`${reason}; pausing ${service} requests for ${this.formatDelay(delay)}`);
+    this.pausedUntil.set(service, resetAt);
+  }
+
+  private pause(service: string, delay: number): void {
+    const resetAt = Date.now() + delay;
+    if ((this.pausedUntil.get(service) ?? 0) < resetAt) {
+      this.pausedUntil.set(service, resetAt);
+    }
+  }
+
+  private async waitForPause(service: string): Promise<void> {
+    const delay = (this.pausedUntil.get(service) ?? 0) - Date.now();
+    if (delay > 0) {
+      this.logger.debug(`Waiting ${this.formatDelay(delay)} for the ${service} rate limit to reset`);
+      await this.sleep(delay);
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return;
+    }
+    // The releasing request hands its slot straight to the next one in line
+    await new Promise<void>((resolve) => this.queue.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private isRetryable(error: any): boolean {
+    const status = this.getStatus(error);
+    if (status === undefined) {
+      // No HTTP response: connection reset, timeout, DNS failure
+      return NETWORK_ERROR_CODES.includes(error?.code) || /Connection/.test(error?.name || '');
+    }
+    return status === 429 || status >= 500 || this.isRateLimited(error);
+  }
+
+  private isRateLimited(error: any): boolean {
+    const status = this.getStatus(error);
+    if (status === 429) {
+      return true;
+    }
+    if (status !== 403) {
+      return false;
+    }
+    // GitHub answers 403 for both its primary limit (no calls remaining) and its secondary limits
+    const message = String(error?.message || '').toLowerCase();
+    return (
+      this.getHeader(error, 'x-ratelimit-remaining') === '0' ||
+      this.getHeader(error, 'retry-after') !== undefined ||
+      message.includes('secondary rate limit') ||
+      message.includes('rate limit exceeded')
+    );
+  }
+
+  /**
+   * Delay before the next attempt: the server's `Retry-After` or rate-limit reset when present,
+   * otherwise exponential backoff with jitter
+   */
+  private getRetryDelay(error: any, attempt: number): number {
+    const retryAfterMs = this.getHeader(error, 'retry-after-ms');
+    if (retryAfterMs !== undefined && !isNaN(Number(retryAfterMs))) {
+      return Number(retryAfterMs);
+    }
+
+    const retryAfter = this.getHeader(error, 'retry-after');
+    if (retryAfter !== undefined) {
+      const seconds = Number(retryAfter);
+      const delay = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+      if (!isNaN(delay)) {
+        return Math.max(delay, 0) + 1000;
+      }
+    }
+
+    const reset = this.getHeader(error, 'x-ratelimit-reset');
+    if (this.getHeader(error, 'x-ratelimit-remaining') === '0' && reset !== undefined && !isNaN(Number(reset))) {
+      return Math.max(Number(reset) * 1000 - Date.now(), 0) + 1000;
+    }
+
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return Math.round(this.baseDelayMs / 2 + Math.random() * ceiling);
+  }
+
+  private getStatus(error: any): number | undefined {
+    const status = error?.status ?? error?.response?.status;
+    return typeof status === 'number' ? status : undefined;
+  }
+
+  /**
+   * Read a response header from an Octokit `RequestError` or an OpenAI `APIError`
+   */
+  private getHeader(error: any, name: string): string | undefined {
+    const headers = error?.headers ?? error?.response?.headers;
+    if (!headers) {
+      return undefined;
+    }
+    const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+    return value === null || value === undefined ? undefined : String(value);
+  }
+
+  private describeError(error: any): string {
+    const status = this.getStatus(error);
+    return status !== undefined ? `HTTP ${status}` : error?.code || error?.message || String(error);
+  }
+
+  private formatDelay(ms: number): string {
+    return ms >= 60000 ? `${Math.ceil(ms / 60000)}m` : `${Math.ceil(ms / 1000)}s`;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,98 @@
+import { AnalyzerLogger, ModelPrice, TokenUsage, UsageLimits } from '../types';
+import { Logger } from '../utils/logger';
+import { addUsage, DEFAULT_MODEL_PRICES, emptyUsage, findModelPrice, formatCost } from '../utils/usage';
+
+/**
+ * Counts the tokens of every LLM completion in a run, estimates their cost from the price table
+ * and enforces the run's limits. Once a limit is reached, `checkLimits` refuses new requests, so
+ * the remaining issues fail their analysis instead of being sent and are retried on the next run.
+ */
+export class UsageTracker {
+  private totals: TokenUsage = emptyUsage();
+  private readonly prices: Record<string, ModelPrice>;
+  private readonly limits: UsageLimits;
+  private readonly logger: AnalyzerLogger;
+  private readonly unpricedModels = new Set<string>();
+  private limitReached?: string;
+
+  constructor(options: { prices?: Record<string, ModelPrice>; limits?: UsageLimits; logger?: AnalyzerLogger } = {}) {
+    this.prices = { ...DEFAULT_MODEL_PRICES, ...options.prices };
+    this.limits = options.limits || {};
+    this.logger = options.logger || new Logger();
+  }
+
+  /**
+   * Count a completion's usage towards the run, and towards `into` (such as one issue's usage)
+   * when given. Returns the completion's usage with its estimated cost.
+   */
+  record(
+    model: string,
+    completion: { prompt_tokens: number; completion_tokens: number; total_tokens?: number } | undefined,
+    into?: TokenUsage
+  ): TokenUsage {
+    const usage: TokenUsage = {
+      requests: 1,
+      prompt_tokens: completion?.prompt_tokens ?? 0,
+      completion_tokens: completion?.completion_tokens ?? 0,
+      total_tokens: 0,
+    };
+    usage.total_tokens = completion?.total_tokens ?? usage.prompt_tokens + usage.completion_tokens;
+
+    const price = findModelPrice(model, this.prices);
+    if (price) {
+      usage.cost_usd = (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / 1_000_000;
+    } else if (!this.unpricedModels.has(model)) {
+      this.unpricedModels.add(model);
+      const budget = this.limits.budgetUsd !== undefined ? ', and its requests do not count towards --budget' : '';
+      this.logger.warning(`No price known for model ${model}; add it to model_prices to estimate its cost${budget}`);
+    }
+
+    this.totals = addUsage(this.totals, usage);
+    if (into) {
+      Object.assign(into, addUsage(into, usage));
+    }
+
+    this.checkExhausted();
+    return usage;
+  }
+
+  /**
+   * Usage of the run so far
+   */
+  getTotals(): TokenUsage {
+    return { ...this.totals };
+  }
+
+  /**
+   * Whether a limit has been reached, so no further requests should be sent
+   */
+  isExhausted(): boolean {
+    return this.limitReached !== undefined;
+  }
+
+  /**
+   * Throw if a limit has been reached. Call before sending each request.
+   */
+  checkLimits(): void {
+    if (this.limitReached) {
+      throw new Error(`Run stopped: ${this.limitReached}`);
+    }
+  }
+
+  private checkExhausted(): void {
+    if (this.limitReached) {
+      return;
+    }
+
+    const { budgetUsd, maxTokens } = this.limits;
+    if (maxTokens !== undefined && this.totals.total_tokens >= maxTokens) {
+      this.limitReached = `token limit of ${maxTokens.toLocaleString('en-US')} reached`;
+    } else if (budgetUsd !== undefined && (this.totals.cost_usd ?? 0) >= budgetUsd) {
+      this.limitReached = `budget of ${formatCost(budgetUsd)} reached`;
+    }
+
+    if (this.limitReached) {
+      this.logger.warning(`Run stopped: ${this.limitReached}; no further LLM requests will be sent`);
+    }
+  }
+}
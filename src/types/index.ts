@@ -1,3 +1,5 @@
+import type { ReportService } from '../services/report';
+
 export interface GitHubIssue {
   id: number;
   number: number;
@@ -22,6 +24,41 @@ export interface GitHubIssue {
     avatar_url: string;
   }>;
   comments: number;
+  repository?: string; // owner/name of the repository the issue belongs to
+  // Search queries that returned this issue. Partial when the issue limit was reached: the
+  // results not read by then are not matched, so queries that would have found it are missing.
+  matched_queries?: string[];
+  linked_pull_requests?: LinkedPullRequest[]; // Pull requests referencing the issue, from its timeline
+  fix_status?: FixStatus; // Derived from linked_pull_requests; unset when they were not fetched
+}
+
+/**
+ * A pull request linked to an issue through a cross-reference or a "connected" timeline event
+ */
+export interface LinkedPullRequest {
+  repository: string; // owner/name
+  number: number;
+  title: string;
+  html_url: string;
+  state: 'open' | 'merged' | 'closed'; // `closed` means closed without merging
+  merged_at?: string;
+}
+
+/**
+ * Whether a fix is on the way: `fixed-unreleased` once a linked pull request is merged,
+ * `fix-in-progress` while one is open, `no-fix` otherwise (including abandoned pull requests)
+ */
+export type FixStatus = 'no-fix' | 'fix-in-progress' | 'fixed-unreleased';
+
+export interface GitHubComment {
+  id: number;
+  user: {
+    login: string;
+  };
+  body: string;
+  created_at: string;
+  author_association: string;
+  is_maintainer: boolean; // Comment by a repo owner, member or collaborator
 }
 
 export interface GitHubSearchResponse {
@@ -38,6 +75,56 @@ export interface IssueAnalysis {
   affected_functionality: string[];
   impact_description: string;
   confidence_score: number; // 0-100
+  maintainer_responded?: boolean;
+  confirmed_by_others?: boolean; // Other users report the same problem
+  fix_mentioned?: boolean; // The discussion mentions a fix, PR or fixed version
+  relevance_score?: number; // 0-100, how much the issue is about the component rather than mentioning it
+  relevance_reason?: string;
+  workarounds?: IssueWorkaround[];
+  fix_version?: string; // Release said to contain the fix
+  fix_commit?: string; // Commit SHA or pull request with the fix
+  analysis_status?: 'ok' | 'failed'; // 'failed' results carry no real severity; absent in older reports
+  analysis_error?: string;
+  prompt_template?: string; // Template that produced the analysis, as name@version
+  prompt_hash?: string; // Hash of the template contents and response schema
+  usage?: TokenUsage; // Tokens spent on the analysis, including repair attempts
+}
+
+/**
+ * Tokens spent on LLM requests and their estimated cost
+ */
+export interface TokenUsage {
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd?: number; // Unset when no request used a model with a known price
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Limits that stop a run once reached. Requests already in flight still complete.
+ */
+export interface UsageLimits {
+  budgetUsd?: number;
+  maxTokens?: number;
+}
+
+/**
+ * A way around an issue found in its body or discussion
+ */
+export interface IssueWorkaround {
+  type: 'code' | 'css' | 'version_pin' | 'config' | 'other';
+  description: string;
+  snippet?: string; // Code, CSS or dependency pin to apply
+  source?: string; // Where it was found: "issue body" or the commenter's @login
 }
 
 export interface ComponentAnalysisReport {
@@ -46,15 +133,45 @@ export interface ComponentAnalysisReport {
   total_issues: number;
   critical_issues: number;
   high_priority_issues: number;
+  failed_analyses?: number; // Issues that could not be analyzed; counted in total_issues only
+  possibly_unrelated?: number; // Issues below the relevance threshold; counted in total_issues only
+  relevance_threshold?: number;
+  prompt_template?: string;
+  prompt_hash?: string;
+  model?: string;
+  usage?: TokenUsage; // Tokens spent by the run that produced the report; cached analyses cost none
   issues: Array<{
     github_issue: GitHubIssue;
     analysis: IssueAnalysis;
+    cluster_id?: number; // Set for issues grouped with others describing the same problem
+    possibly_unrelated?: boolean; // Relevance below the threshold; not counted in any severity
+    analysis_outdated?: boolean; // Re-analysis failed, so the analysis is an earlier run's; retried by `watch`
   }>;
-  summary: {
-    most_critical_issues: string[];
-    common_problems: string[];
-    recommended_actions: string[];
-  };
+  clusters?: IssueCluster[];
+  // Found but not analyzed because the run's usage limit was reached: left out of `issues` and every
+  // count (unless `watch` kept an earlier analysis), unchecked by `check` and retried by `watch`
+  not_analyzed?: GitHubIssue[];
+  summary: ComponentSummary;
+}
+
+/**
+ * Issues in a report that describe the same problem
+ */
+export interface IssueCluster {
+  cluster_id: number;
+  canonical_issue: string; // Key of the issue the others duplicate
+  title: string; // Title of the canonical issue
+  issues: string[]; // Issue keys, canonical first
+  keywords: string[]; // Distinctive terms the issues share
+  highest_severity: IssueAnalysis['severity_level'];
+  critical_issues: number;
+}
+
+export interface ComponentSummary {
+  most_critical_issues: string[];
+  common_problems: string[];
+  recommended_actions: string[];
+  usage?: TokenUsage;
 }
 
 export interface OpenAIIssueAnalysisRequest {
@@ -63,19 +180,458 @@ export interface OpenAIIssueAnalysisRequest {
   issue_body: string;
   issue_labels: string[];
   issue_url: string;
+  issue_repository?: string;
+  issue_author?: string;
+  issue_comments?: GitHubComment[];
+  total_comments?: number;
+}
+
+/**
+ * Prompt templates for model-backed providers, loaded from a template directory
+ */
+export interface PromptTemplate {
+  name: string; // name@version from template.json
+  hash: string;
+  rubric: string; // Severity definitions, inserted into the system prompt
+  system: string;
+  issue: string;
+  summarySystem: string;
+  summary: string;
+}
+
+/**
+ * Identifies what produced an analysis: a prompt template, or a provider's built-in rules
+ */
+export interface PromptTemplateRef {
+  name: string;
+  hash: string;
+}
+
+/**
+ * A language model backend capable of classifying issues and summarizing a component
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly modelName: string;
+  getPromptTemplate(componentName: string): PromptTemplateRef;
+  analyzeIssue(request: OpenAIIssueAnalysisRequest): Promise<IssueAnalysis>;
+  analyzeIssuesBatch(requests: OpenAIIssueAnalysisRequest[]): Promise<IssueAnalysis[]>;
+  generateComponentSummary(
+    componentName: string,
+    analyses: Array<{ analysis: IssueAnalysis; github_issue: GitHubIssue }>
+  ): Promise<ComponentSummary>;
+}
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'heuristic';
+
+export interface IssueSearchOptions {
+  maxIssues?: number;
+  includeClosedIssues?: boolean;
+  state?: 'open' | 'closed' | 'all';
+  repos?: string[];
+  aliases?: string[]; // Other names of the component, searched like the name itself
+  keywords?: string[]; // Extra search terms
+  excludeTerms?: string[]; // Issues mentioning any of these are not returned
+  labels?: string[]; // Keep only issues with at least one of these labels
+  excludeLabels?: string[];
+  updatedSince?: string; // ISO timestamp; only issues updated after it are returned
+}
+
+/**
+ * Per-component settings from the project config file
+ */
+export interface ComponentOverride {
+  aliases?: string[];
+  keywords?: string[];
+  exclude_terms?: string[];
+  labels?: string[];
+  exclude_labels?: string[];
+  max_issues?: number;
+  prompts?: string; // Prompt template directory for this component
+}
+
+/**
+ * Contents of `.shadcn-analyzer.json` or `shadcn-analyzer.config.ts`
+ */
+export interface ProjectConfigFile {
+  model?: string;
+  llm_provider?: LLMProviderName;
+  llm_base_url?: string;
+  repos?: string[];
+  github_api_url?: string;
+  max_issues?: number;
+  include_closed?: boolean;
+  formats?: string[];
+  comment_budget?: number;
+  concurrency?: number;
+  output_dir?: string;
+  relevance_threshold?: number;
+  prompts?: string; // Prompt template directory
+  notifications?: NotificationSink[];
+  model_prices?: Record<string, ModelPrice>;
+  components?: Record<string, ComponentOverride>;
+}
+
+/**
+ * Where to send notifications about new critical issues. `webhook` POSTs the JSON
+ * `CriticalIssuesNotification`; `slack` and `teams` POST a `{ "text": ... }` chat message.
+ */
+export interface NotificationSink {
+  type: 'webhook' | 'slack' | 'teams';
+  url: string;
+  name?: string; // Shown in logs instead of the URL, which often contains a secret
+  headers?: Record<string, string>; // Extra request headers, e.g. for authentication
+}
+
+/**
+ * Payload of a `webhook` notification
+ */
+export interface CriticalIssuesNotification {
+  event: 'new_critical_issues';
+  component_name: string;
+  analysis_date: string;
+  critical_issues: number; // All critical issues in the report
+  new_critical_issues: IssueChange[]; // Critical now but not in the previous report
+}
+
+/**
+ * Source of issues and comments used by the analyzer; `GitHubService` is the default
+ */
+export interface GitHubClient {
+  searchComponentIssues(componentName: string, options?: IssueSearchOptions): Promise<GitHubIssue[]>;
+  getIssueComments(repository: string, issueNumber: number, tokenBudget: number): Promise<GitHubComment[]>;
+  // Optional so that clients written before linked pull requests were tracked keep working
+  getLinkedPullRequests?(repository: string, issueNumber: number): Promise<LinkedPullRequest[]>;
+  getRateLimit(): Promise<{ limit: number; remaining: number; reset: number } | null>;
+}
+
+/**
+ * Progress and diagnostics output; `Logger` writes to the console, `SilentLogger` discards everything
+ */
+export interface AnalyzerLogger {
+  info(message: string): void;
+  success(message: string): void;
+  warning(message: string): void;
+  error(message: string): void;
+  debug(message: string): void;
+  progress(message: string): void;
+  critical(message: string): void;
+  header(message: string): void;
+  separator(): void;
 }
 
 export interface Config {
   githubToken?: string;
+  githubApiUrl?: string; // Base URL of the GitHub API, for GitHub Enterprise
+  targetRepos: string[]; // owner/name of each repository to search
   openaiApiKey: string;
   openaiModel?: string;
+  llmProvider: LLMProviderName;
+  llmBaseUrl?: string;
+  commentTokenBudget: number;
+  requestConcurrency: number; // Maximum GitHub/LLM requests in flight at once
+  requestMaxRetries: number; // Retries for rate-limited or failed requests
   outputDir: string;
+  maxIssues?: number; // Default issues per component
+  includeClosedIssues?: boolean;
+  formats?: string[]; // Default report formats
+  componentOverrides?: Record<string, ComponentOverride>;
+  promptsDir?: string; // Prompt template directory; the built-in templates when unset
+  relevanceThreshold: number; // Issues scoring below it are reported as possibly unrelated
+  linkedPullRequests: boolean; // Fetch each issue's timeline for linked pull requests
+  notifications?: NotificationSink[];
+  modelPrices?: Record<string, ModelPrice>; // Added to the built-in price table
+}
+
+export interface AnalyzerOptions {
+  verbose?: boolean;
+  useCache?: boolean;
+  concurrency?: number;
+  config?: Partial<Config>; // When set, the environment and .env files are not read
+  githubClient?: GitHubClient;
+  llmProvider?: LLMProvider;
+  reportService?: ReportService;
+  logger?: AnalyzerLogger;
+  notifyDryRun?: boolean; // Print notification payloads instead of sending them
+  limits?: UsageLimits;
+}
+
+/**
+ * Options of `createAnalyzer`, the library entry point. Unlike the CLI it never reads the
+ * environment, logs nothing by default and does not cache analyses on disk unless `useCache` is set.
+ */
+export interface CreateAnalyzerOptions extends Omit<AnalyzerOptions, 'config' | 'verbose'> {
+  config: Partial<Config>;
 }
 
 export interface AnalyzeOptions {
   component: string;
   maxIssues?: number;
+  repos?: string[];
+  includeClosedIssues?: boolean;
+  commentTokenBudget?: number;
+  outputFile?: string;
+  verbose?: boolean;
+}
+
+/**
+ * Options of an incremental update, which merges new and changed issues into the stored report
+ */
+export interface UpdateComponentOptions extends AnalyzeOptions {
+  since?: string; // ISO timestamp; defaults to the analysis date of the stored report
+}
+
+export interface ComponentUpdate {
+  report: ComponentAnalysisReport; // The stored report with the new and changed issues merged in
+  updated_issues: number; // New, changed and retried issues analyzed in this update
+  diff?: ReportDiff; // Against the stored report; unset when there was none and a full analysis ran
+  full_analysis?: boolean; // No report was stored, so this one is the baseline and should be saved
+}
+
+export interface SaveReportOptions {
+  formats?: string[];
+}
+
+export interface BatchAnalyzeOptions {
+  components: string[];
+  maxIssues?: number;
+  totalIssueBudget?: number;
+  repos?: string[];
   includeClosedIssues?: boolean;
+  commentTokenBudget?: number;
+  sinceLast?: boolean;
+  formats?: string[];
+  project?: ProjectInfo;
   outputFile?: string;
+  save?: boolean; // Write each component's reports (default true)
   verbose?: boolean;
 }
+
+/**
+ * Paths of saved report files, keyed by format (e.g. `md`, `json`)
+ */
+export type SavedReportPaths = Record<string, string>;
+
+/**
+ * Renders a component report into one output format
+ */
+export interface Reporter {
+  readonly format: string; // Name used with `--format`
+  readonly extension: string;
+  readonly description: string;
+  render(report: ComponentAnalysisReport): string;
+}
+
+export interface DashboardEntry {
+  component_name: string;
+  total_issues: number;
+  critical_issues: number;
+  high_priority_issues: number;
+  report_paths?: SavedReportPaths;
+  error?: string;
+}
+
+export interface ProjectInfo {
+  name: string;
+  directory: string;
+  ui_directory: string;
+  components: string[]; // Installed shadcn/ui components
+  unrecognized_files: string[]; // Analyzed components that aren't in the known list, possibly custom ones
+}
+
+export interface DashboardReport {
+  analysis_date: string;
+  project?: ProjectInfo; // Set when the dashboard covers a scanned project
+  total_components: number;
+  total_issues: number;
+  critical_issues: number;
+  high_priority_issues: number;
+  usage?: TokenUsage;
+  components: DashboardEntry[];
+}
+
+/**
+ * A JSON component report saved in the output directory
+ */
+export interface StoredReport {
+  component_name: string;
+  date: string; // YYYY-MM-DDTHH-MM-SS from the file name, or YYYY-MM-DD for older reports
+  path: string;
+}
+
+/**
+ * Counts of one stored report, for a component's history
+ */
+export interface ReportHistoryEntry {
+  date: string;
+  analysis_date: string;
+  total_issues: number;
+  critical_issues: number;
+  high_priority_issues: number;
+  possibly_unrelated: number;
+  prompt_template?: string;
+}
+
+export interface ComponentHistory {
+  component_name: string;
+  latest: ReportHistoryEntry;
+  history: ReportHistoryEntry[]; // Oldest first
+}
+
+export interface CachedAnalysis {
+  component_name: string;
+  repository: string;
+  issue_number: number;
+  updated_at: string;
+  model: string;
+  prompt_hash: string;
+  cached_at: string;
+  analysis: IssueAnalysis;
+}
+
+export interface CacheStats {
+  path: string;
+  entries: number;
+  size_bytes: number;
+  by_component: Record<string, number>;
+  by_model: Record<string, number>;
+}
+
+export interface IssueChange {
+  repository: string;
+  number: number;
+  title: string;
+  html_url: string;
+  old_severity?: IssueAnalysis['severity_level'];
+  new_severity?: IssueAnalysis['severity_level'];
+  old_state?: GitHubIssue['state'];
+  new_state?: GitHubIssue['state'];
+}
+
+export interface CountChange {
+  before: number;
+  after: number;
+  change: number;
+}
+
+export interface ReportDiff {
+  component_name: string;
+  old_analysis_date: string;
+  new_analysis_date: string;
+  old_prompt_template?: string; // name@version (hash), when the report records it
+  new_prompt_template?: string;
+  counts: {
+    total_issues: CountChange;
+    critical_issues: CountChange;
+    high_priority_issues: CountChange;
+  };
+  newly_critical: IssueChange[]; // Critical now; before, not critical, not there, failed or possibly unrelated
+  escalations: IssueChange[];
+  downgrades: IssueChange[];
+  resolved: IssueChange[]; // Open before, closed now
+  new_issues: IssueChange[];
+  no_longer_reported: IssueChange[]; // In the old report but not the new one
+}
+
+/**
+ * One line of a component's change log: an issue that appeared, changed severity or was closed
+ */
+export interface IssueChangeEvent extends IssueChange {
+  component_name: string;
+  detected_at: string;
+  change: 'new' | 'escalation' | 'downgrade' | 'resolved';
+}
+
+/**
+ * One line of the analysis history: an issue's analysis in one saved report
+ */
+export interface HistoryRecord {
+  run_id: string; // Component and analysis date of the report the analysis belongs to
+  recorded_at: string;
+  component_name: string;
+  analysis_date: string;
+  model?: string;
+  prompt_template?: string;
+  prompt_hash?: string;
+  repository: string;
+  number: number;
+  title: string;
+  html_url: string;
+  state: GitHubIssue['state'];
+  created_at: string;
+  updated_at: string;
+  labels: string[];
+  severity: IssueAnalysis['severity_level']; // Effective severity, critical when is_critical is set
+  possibly_unrelated?: boolean;
+  analysis: IssueAnalysis;
+}
+
+export interface HistoryQuery {
+  components?: string[];
+  severities?: Array<IssueAnalysis['severity_level']>; // Matched against the latest severity
+  openedSince?: string; // ISO date the issue was created on or after
+  state?: GitHubIssue['state'];
+  label?: string;
+  model?: string; // Only consider analyses made with this model
+  minSeverityChanges?: number;
+}
+
+/**
+ * An issue's analyses across runs, as returned by a history query
+ */
+export interface IssueHistory {
+  component_name: string;
+  repository: string;
+  number: number;
+  title: string;
+  html_url: string;
+  state: GitHubIssue['state'];
+  created_at: string;
+  labels: string[];
+  severity?: IssueAnalysis['severity_level']; // Latest severity; unset when every analysis failed
+  possibly_unrelated?: boolean;
+  severity_changes: number;
+  runs: number;
+  timeline: Array<{ analysis_date: string; severity: IssueAnalysis['severity_level']; model?: string }>;
+}
+
+export type AllowlistEntry =
+  | string // Issue key such as "shadcn-ui/ui#1234" or "#1234"
+  | number // Issue number in the default repository
+  | {
+      issue: string | number;
+      reason?: string;
+      expires?: string; // ISO date after which the entry no longer applies
+    };
+
+export interface CheckPolicy {
+  components?: string[]; // Components to check; overridden by CLI arguments
+  project?: string; // Project directory to scan for components when none are listed
+  fail_on: {
+    severity: IssueAnalysis['severity_level']; // Minimum severity that violates the policy
+    min_confidence?: number; // Ignore classifications below this confidence
+    include_closed?: boolean; // Whether closed issues can violate the policy
+    max_unanalyzed?: number; // Failed analyses tolerated before the check errors; defaults to 0
+  };
+  allowlist?: AllowlistEntry[];
+  max_issues?: number;
+}
+
+export interface PolicyViolation {
+  component_name: string;
+  issue: string; // Issue key, e.g. "shadcn-ui/ui#1234"
+  title: string;
+  html_url: string;
+  severity_level: IssueAnalysis['severity_level'];
+  confidence_score: number;
+}
+
+export interface CheckVerdict {
+  verdict: 'pass' | 'fail' | 'error'; // `error` when more analyses failed than `fail_on.max_unanalyzed` allows
+  error?: string;
+  checked_components: string[];
+  checked_issues: number; // Issues analyzed and checked; failed analyses are listed in `unanalyzed`
+  violations: PolicyViolation[];
+  allowlisted: string[]; // Keys of matching issues skipped because of the allowlist
+  unanalyzed: string[]; // Keys of issues whose analysis failed, so the policy could not be applied
+}
@@ -0,0 +1,53 @@
+/**
+ * Common shadcn/ui components, used by `list-components` and `analyze-all`
+ */
+export const SHADCN_COMPONENTS: string[] = [
+  'button',
+  'input',
+  'input-otp',
+  'label',
+  'textarea',
+  'select',
+  'dialog',
+  'alert-dialog',
+  'sheet',
+  'popover',
+  'tooltip',
+  'dropdown-menu',
+  'context-menu',
+  'navigation-menu',
+  'menubar',
+  'table',
+  'card',
+  'avatar',
+  'badge',
+  'separator',
+  'tabs',
+  'accordion',
+  'collapsible',
+  'scroll-area',
+  'slider',
+  'switch',
+  'checkbox',
+  'radio-group',
+  'form',
+  'calendar',
+  'date-picker',
+  'command',
+  'toast',
+  'alert',
+  'progress',
+  'skeleton',
+  'aspect-ratio',
+  'resizable',
+  'toggle',
+  'toggle-group',
+  'hover-card',
+  'breadcrumb',
+  'pagination',
+  'carousel',
+  'drawer',
+  'sidebar',
+  'sonner',
+  'chart',
+];
@@ -1,57 +1,171 @@
-import * as dotenv from 'dotenv';
 import * as path from 'path';
-import { Config } from '../types';
+import { Config, LLMProviderName, StoredReport } from '../types';
+import { DEFAULT_REPOSITORY, parseRepository } from './issues';
 
-// Load environment variables
-dotenv.config();
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'openai-compatible', 'heuristic'];
+
+export const DEFAULT_CONFIG: Config = {
+  targetRepos: [DEFAULT_REPOSITORY],
+  openaiApiKey: '',
+  openaiModel: 'gpt-4-turbo-preview',
+  llmProvider: 'openai',
+  commentTokenBudget: 2000,
+  requestConcurrency: 5,
+  requestMaxRetries: 5,
+  relevanceThreshold: 40,
+  linkedPullRequests: true,
+  outputDir: './reports',
+};
+
+/**
+ * Read the configuration from environment variables. Loading `.env` files is left to the caller.
+ */
+export function loadConfigFromEnv(env: NodeJS.ProcessEnv = process.env): Config {
+  return {
+    githubToken: env.GITHUB_TOKEN,
+    githubApiUrl: env.GITHUB_API_URL,
+    targetRepos: (env.GITHUB_REPOS || DEFAULT_REPOSITORY)
+      .split(',')
+      .map((repo) => repo.trim())
+      .filter((repo) => repo.length > 0),
+    openaiApiKey: env.OPENAI_API_KEY || DEFAULT_CONFIG.openaiApiKey,
+    openaiModel: env.OPENAI_MODEL || DEFAULT_CONFIG.openaiModel,
+    llmProvider: (env.LLM_PROVIDER || DEFAULT_CONFIG.llmProvider) as LLMProviderName,
+    llmBaseUrl: env.LLM_BASE_URL,
+    commentTokenBudget: parseInt(env.COMMENT_TOKEN_BUDGET || String(DEFAULT_CONFIG.commentTokenBudget)),
+    requestConcurrency: parseInt(env.REQUEST_CONCURRENCY || String(DEFAULT_CONFIG.requestConcurrency)),
+    requestMaxRetries: parseInt(env.REQUEST_MAX_RETRIES || String(DEFAULT_CONFIG.requestMaxRetries)),
+    relevanceThreshold: parseInt(env.RELEVANCE_THRESHOLD || String(DEFAULT_CONFIG.relevanceThreshold)),
+    linkedPullRequests: env.LINKED_PULL_REQUESTS !== 'false',
+    outputDir: env.OUTPUT_DIR || DEFAULT_CONFIG.outputDir,
+    promptsDir: env.PROMPTS_DIR,
+  };
+}
 
 export class ConfigService {
   private config: Config;
 
-  constructor() {
-    this.config = this.loadConfig();
-    this.validateConfig();
+  /**
+   * Use `config` on top of the defaults when given, otherwise read the environment
+   */
+  constructor(validate: boolean = true, config?: Partial<Config>) {
+    this.config = config ? this.withDefaults(config) : loadConfigFromEnv();
+    if (validate) {
+      this.validateConfig();
+    }
   }
 
   getConfig(): Config {
     return this.config;
   }
 
-  private loadConfig(): Config {
-    return {
-      githubToken: process.env.GITHUB_TOKEN,
-      openaiApiKey: process.env.OPENAI_API_KEY || '',
-      openaiModel: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview',
-      outputDir: process.env.OUTPUT_DIR || './reports',
-    };
+  private withDefaults(config: Partial<Config>): Config {
+    const defined = Object.entries(config).filter(([, value]) => value !== undefined);
+    return { ...DEFAULT_CONFIG, ...Object.fromEntries(defined) };
   }
 
   private validateConfig(): void {
-    if (!this.config.openaiApiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is required');
+    this.config.targetRepos.forEach((repo) => parseRepository(repo));
+
+    if (!LLM_PROVIDERS.includes(this.config.llmProvider)) {
+      throw new Error(`LLM_PROVIDER must be one of: ${LLM_PROVIDERS.join(', ')}`);
+    }
+
+    if (isNaN(this.config.requestConcurrency) || this.config.requestConcurrency < 1) {
+      throw new Error('REQUEST_CONCURRENCY must be a positive number');
+    }
+
+    if (isNaN(this.config.requestMaxRetries) || this.config.requestMaxRetries < 0) {
+      throw new Error('REQUEST_MAX_RETRIES must be zero or a positive number');
     }
 
-    if (!this.config.githubToken) {
-      console.warn('⚠️  GITHUB_TOKEN not provided. API rate limits will be lower.');
+    const threshold = this.config.relevanceThreshold;
+    if (isNaN(threshold) || threshold < 0 || threshold > 100) {
+      throw new Error('RELEVANCE_THRESHOLD must be a number from 0 to 100');
     }
   }
 
   /**
-   * Get output file path for a component report
+   * Get output file path for a component report made at `date`. The file name carries the time
+   * to the second, e.g. `dialog-analysis-2024-01-15T09-30-00.json`, so that several runs on the
+   * same day each keep their report.
    */
-  getOutputPath(componentName: string, format: 'md' | 'json' = 'md'): string {
-    const timestamp = new Date().toISOString().split('T')[0];
-    const filename = `${componentName}-analysis-${timestamp}.${format}`;
+  getOutputPath(componentName: string, extension: string = 'md', date: string = new Date().toISOString()): string {
+    const filename = `${componentName}-analysis-${this.formatFileTimestamp(date)}.${extension}`;
+    return path.join(this.config.outputDir, filename);
+  }
+
+  /**
+   * Get output file path for a diff against the report made at `date`, timestamped like the reports
+   */
+  getDiffPath(componentName: string, format: 'md' | 'json' = 'md', date: string = new Date().toISOString()): string {
+    const filename = `${componentName}-diff-${this.formatFileTimestamp(date)}.${format}`;
     return path.join(this.config.outputDir, filename);
   }
 
   /**
-   * Ensure output directory exists
+   * Get the path of a component's change log, which `watch` appends to on every update
+   */
+  getChangeLogPath(componentName: string): string {
+    return path.join(this.config.outputDir, `${componentName}-changes.ndjson`);
+  }
+
+  /**
+   * Get the path of the analysis history, which every saved report is appended to
+   */
+  getHistoryPath(): string {
+    return path.join(this.config.outputDir, 'history.ndjson');
+  }
+
+  /**
+   * Find the most recent JSON report saved for a component, if any
    */
-  ensureOutputDirectory(): void {
+  findLatestReportPath(componentName: string): string | undefined {
+    const reports = this.listStoredReports(componentName);
+    return reports.length > 0 ? reports[reports.length - 1].path : undefined;
+  }
+
+  /**
+   * List the JSON component reports in the output directory, oldest first, optionally for one component
+   */
+  listStoredReports(componentName?: string): StoredReport[] {
     const fs = require('fs');
     if (!fs.existsSync(this.config.outputDir)) {
-      fs.mkdirSync(this.config.outputDir, { recursive: true });
+      return [];
     }
+
+    // Reports saved before file names carried the time have only the date
+    const pattern = /^(.+)-analysis-(\d{4}-\d{2}-\d{2}(?:T\d{2}-\d{2}-\d{2})?)\.json$/;
+    return (fs.readdirSync(this.config.outputDir) as string[])
+      .map((file) => file.match(pattern))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .filter((match) => componentName === undefined || match[1] === componentName)
+      .map((match) => ({ component_name: match[1], date: match[2], path: path.join(this.config.outputDir, match[0]) }))
+      // ISO dates and times in the filenames sort chronologically
+      .sort((a, b) => a.date.localeCompare(b.date) || a.component_name.localeCompare(b.component_name));
+  }
+
+  /**
+   * Get output file path for the cross-component dashboard report, or a project's risk report
+   */
+  getDashboardPath(format: 'md' | 'json' = 'md', projectName?: string): string {
+    const timestamp = new Date().toISOString().split('T')[0];
+    const prefix = projectName ? `${projectName.replace(/[^\w.-]+/g, '-')}-risk` : 'dashboard';
+    const filename = `${prefix}-${timestamp}.${format}`;
+    return path.join(this.config.outputDir, filename);
+  }
+
+  /**
+   * Get the path of the on-disk analysis cache
+   */
+  getCachePath(): string {
+    return path.join(this.config.outputDir, '.cache', 'analyses.json');
+  }
+
+  /**
+   * Timestamp for file names: ISO time to the second, with colons replaced for Windows
+   */
+  private formatFileTimestamp(date: string): string {
+    return new Date(date).toISOString().replace(/\.\d{3}Z$/, '').replace(/:/g, '-');
   }
 }
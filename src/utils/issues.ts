@@ -0,0 +1,39 @@
+import { FixStatus, GitHubIssue, LinkedPullRequest } from '../types';
+
+export const DEFAULT_REPOSITORY = 'shadcn-ui/ui';
+
+/**
+ * Repository an issue belongs to. Reports saved before multi-repo support have no
+ * `repository` field; all of their issues came from the default repository.
+ */
+export function issueRepository(issue: Pick<GitHubIssue, 'repository'>): string {
+  return issue.repository ?? DEFAULT_REPOSITORY;
+}
+
+/**
+ * Key identifying an issue across repositories, e.g. `radix-ui/primitives#1234`
+ */
+export function issueKey(issue: Pick<GitHubIssue, 'repository' | 'number'>): string {
+  return `${issueRepository(issue)}#${issue.number}`;
+}
+
+/**
+ * Split an `owner/name` repository string, rejecting anything else
+ */
+export function parseRepository(repository: string): { owner: string; repo: string } {
+  const match = repository.trim().match(/^([\w.-]+)\/([\w.-]+)$/);
+  if (!match) {
+    throw new Error(`Invalid repository "${repository}", expected "owner/name"`);
+  }
+  return { owner: match[1], repo: match[2] };
+}
+
+/**
+ * Fix status of an issue from its linked pull requests; a merged one wins over an open one
+ */
+export function deriveFixStatus(pullRequests: LinkedPullRequest[]): FixStatus {
+  if (pullRequests.some((pullRequest) => pullRequest.state === 'merged')) {
+    return 'fixed-unreleased';
+  }
+  return pullRequests.some((pullRequest) => pullRequest.state === 'open') ? 'fix-in-progress' : 'no-fix';
+}
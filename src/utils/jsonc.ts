@@ -0,0 +1,46 @@
+/**
+ * Parse JSON with comments and trailing commas, as tsconfig and components.json files often
+ * have. Strings are copied untouched, so `"//"` or `", ]"` inside a value are kept.
+ */
+export function parseJsonc(content: string): any {
+  let json = '';
+  // Position in `json` of the last comma, while only whitespace has followed it
+  let pendingComma = -1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (char === '"') {
+      let end = i + 1;
+      while (end < content.length && content[end] !== '"') {
+        end += content[end] === '\\' ? 2 : 1;
+      }
+      json += content.slice(i, end + 1);
+      i = end;
+      pendingComma = -1;
+      continue;
+    }
+
+    if (char === '/' && content[i + 1] === '/') {
+      const end = content.indexOf('\n', i);
+      i = (end === -1 ? content.length : end) - 1;
+      continue;
+    }
+
+    if (char === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      i = end === -1 ? content.length : end + 1;
+      continue;
+    }
+
+    if ((char === '}' || char === ']') && pendingComma !== -1) {
+      json = json.slice(0, pendingComma) + json.slice(pendingComma + 1);
+    }
+    if (!/\s/.test(char)) {
+      pendingComma = char === ',' ? json.length : -1;
+    }
+    json += char;
+  }
+
+  return JSON.parse(json);
+}
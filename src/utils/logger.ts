@@ -1,47 +1,77 @@
 import chalk from 'chalk';
+import { AnalyzerLogger } from '../types';
 
-export class Logger {
+/**
+ * Console logger. With `stderr`, messages go to stderr so that stdout carries only a command's
+ * machine-readable output.
+ */
+export class Logger implements AnalyzerLogger {
   private verbose: boolean;
+  private stderr: boolean;
 
-  constructor(verbose: boolean = false) {
+  constructor(verbose: boolean = false, stderr: boolean = false) {
     this.verbose = verbose;
+    this.stderr = stderr;
   }
 
   info(message: string): void {
-    console.log(chalk.blue('ℹ️ '), message);
+    this.print(chalk.blue('ℹ️ '), message);
   }
 
   success(message: string): void {
-    console.log(chalk.green('✅'), message);
+    this.print(chalk.green('✅'), message);
   }
 
   warning(message: string): void {
-    console.log(chalk.yellow('⚠️ '), message);
+    this.print(chalk.yellow('⚠️ '), message);
   }
 
   error(message: string): void {
-    console.log(chalk.red('❌'), message);
+    this.print(chalk.red('❌'), message);
   }
 
   debug(message: string): void {
     if (this.verbose) {
-      console.log(chalk.gray('🔍'), message);
+      this.print(chalk.gray('🔍'), message);
     }
   }
 
   progress(message: string): void {
-    console.log(chalk.cyan('⏳'), message);
+    this.print(chalk.cyan('⏳'), message);
   }
 
   critical(message: string): void {
-    console.log(chalk.red.bold('🚨'), message);
+    this.print(chalk.red.bold('🚨'), message);
   }
 
   header(message: string): void {
-    console.log('\n' + chalk.bold.underline(message) + '\n');
+    this.print('\n' + chalk.bold.underline(message) + '\n');
   }
 
   separator(): void {
-    console.log(chalk.gray('─'.repeat(50)));
+    this.print(chalk.gray('─'.repeat(50)));
   }
+
+  private print(...parts: string[]): void {
+    if (this.stderr) {
+      console.error(...parts);
+    } else {
+      console.log(...parts);
+    }
+  }
+}
+
+/**
+ * Logger that discards all output, the default when the analyzer is embedded as a library
+ */
+export class SilentLogger implements AnalyzerLogger {
+  info(): void {}
+  success(): void {}
+  warning(): void {}
+  error(): void {}
+  debug(): void {}
+  progress(): void {}
+  critical(): void {}
+  header(): void {}
+  separator(): void {}
 }
@@ -0,0 +1,152 @@
+/**
+ * The subset of JSON Schema used for LLM structured output. It is also what OpenAI's strict
+ * mode accepts: every property required and no additional properties.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Fields of `IssueAnalysis` the model is asked for. `maintainer_responded` and
+ * `analysis_status` are set by the analyzer, not the model.
+ */
+export const ISSUE_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    issue_id: { type: 'integer', description: 'Issue number, from the URL' },
+    is_critical: { type: 'boolean', description: 'True if this prevents basic component usage' },
+    severity_level: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+    reasoning: { type: 'string', description: 'Detailed explanation of the assessment' },
+    affected_functionality: { type: 'array', items: { type: 'string' } },
+    impact_description: { type: 'string', description: 'How this affects users' },
+    confidence_score: { type: 'number', minimum: 0, maximum: 100 },
+    confirmed_by_others: {
+      type: 'boolean',
+      description: 'True if other users report the same problem in the discussion',
+    },
+    fix_mentioned: {
+      type: 'boolean',
+      description: 'True if the discussion mentions a fix, pull request or fixed version',
+    },
+    relevance_score: {
+      type: 'number',
+      minimum: 0,
+      maximum: 100,
+      description: 'How much the issue is about the component, as opposed to mentioning it in passing',
+    },
+    relevance_reason: { type: 'string', description: 'Why the issue is or is not about the component' },
+    workarounds: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['code', 'css', 'version_pin', 'config', 'other'] },
+          description: { type: 'string', description: 'What to do, in one or two sentences' },
+          snippet: { type: 'string', description: 'Code, CSS or dependency pin to apply; empty if none' },
+          source: { type: 'string', description: '"issue body" or the @login of the commenter' },
+        },
+        required: ['type', 'description', 'snippet', 'source'],
+        additionalProperties: false,
+      },
+    },
+    fix_version: { type: 'string', description: 'Version said to contain the fix; empty if none' },
+    fix_commit: { type: 'string', description: 'Commit SHA or pull request with the fix; empty if none' },
+  },
+  required: [
+    'issue_id',
+    'is_critical',
+    'severity_level',
+    'reasoning',
+    'affected_functionality',
+    'impact_description',
+    'confidence_score',
+    'confirmed_by_others',
+    'fix_mentioned',
+    'relevance_score',
+    'relevance_reason',
+    'workarounds',
+    'fix_version',
+    'fix_commit',
+  ],
+  additionalProperties: false,
+};
+
+export const COMPONENT_SUMMARY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    most_critical_issues: { type: 'array', items: { type: 'string' } },
+    common_problems: { type: 'array', items: { type: 'string' } },
+    recommended_actions: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['most_critical_issues', 'common_problems', 'recommended_actions'],
+  additionalProperties: false,
+};
+
+/**
+ * Validate a value against a schema. Returns one message per problem, empty when it is valid.
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path}: expected an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties || {};
+      const errors: string[] = [];
+
+      (schema.required || [])
+        .filter((key) => !(key in record))
+        .forEach((key) => errors.push(`${path}.${key}: missing required property`));
+
+      Object.entries(record).forEach(([key, item]) => {
+        if (properties[key]) {
+          errors.push(...validateSchema(item, properties[key], `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key}: unexpected property`);
+        }
+      });
+      return errors;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        return [`${path}: expected an array`];
+      }
+      if (!schema.items) {
+        return [];
+      }
+      return value.flatMap((item, index) => validateSchema(item, schema.items!, `${path}[${index}]`));
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${path}: expected a string`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path}: must be one of ${schema.enum.join(', ')} (got "${value}")`];
+      }
+      return [];
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || isNaN(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+        return [`${path}: expected ${schema.type === 'integer' ? 'an integer' : 'a number'}`];
+      }
+      const errors: string[] = [];
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path}: must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path}: must be <= ${schema.maximum}`);
+      }
+      return errors;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected a boolean`];
+  }
+}
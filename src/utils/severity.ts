@@ -0,0 +1,34 @@
+import { IssueAnalysis } from '../types';
+
+export type Severity = IssueAnalysis['severity_level'];
+
+export const SEVERITY_ORDER: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Rank of a severity level, from 0 (low) to 3 (critical)
+ */
+export function severityRank(severity: Severity): number {
+  return SEVERITY_ORDER.indexOf(severity);
+}
+
+/**
+ * Severity of an analysis, treating `is_critical` as critical regardless of the level
+ */
+export function effectiveSeverity(analysis: IssueAnalysis): Severity {
+  return analysis.is_critical ? 'critical' : analysis.severity_level;
+}
+
+/**
+ * Whether the analysis failed, so its severity is meaningless and it should be reviewed by hand
+ */
+export function analysisFailed(analysis: IssueAnalysis): boolean {
+  return analysis.analysis_status === 'failed';
+}
+
+/**
+ * Whether a report issue counts towards the severity totals: it was analyzed and is about the
+ * component rather than mentioning it in passing
+ */
+export function countsTowardSeverity(item: { analysis: IssueAnalysis; possibly_unrelated?: boolean }): boolean {
+  return !analysisFailed(item.analysis) && !item.possibly_unrelated;
+}
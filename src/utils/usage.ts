@@ -0,0 +1,81 @@
+import { ModelPrice, TokenUsage } from '../types';
+
+/**
+ * OpenAI list prices in USD per million tokens. Extend or override them with `model_prices` in
+ * the project config file; requests to models without a price are counted but not costed.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+};
+
+export function emptyUsage(): TokenUsage {
+  return { requests: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+}
+
+/**
+ * Sum two usages. The cost stays unset only if neither has one.
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  const cost = a.cost_usd === undefined && b.cost_usd === undefined ? undefined : (a.cost_usd ?? 0) + (b.cost_usd ?? 0);
+  return {
+    requests: a.requests + b.requests,
+    prompt_tokens: a.prompt_tokens + b.prompt_tokens,
+    completion_tokens: a.completion_tokens + b.completion_tokens,
+    total_tokens: a.total_tokens + b.total_tokens,
+    ...(cost !== undefined && { cost_usd: cost }),
+  };
+}
+
+/**
+ * Usage in `after` that isn't in `before`, where `before` is an earlier total of the same counter
+ */
+export function subtractUsage(after: TokenUsage, before: TokenUsage): TokenUsage {
+  const cost = after.cost_usd === undefined ? undefined : after.cost_usd - (before.cost_usd ?? 0);
+  return {
+    requests: after.requests - before.requests,
+    prompt_tokens: after.prompt_tokens - before.prompt_tokens,
+    completion_tokens: after.completion_tokens - before.completion_tokens,
+    total_tokens: after.total_tokens - before.total_tokens,
+    ...(cost !== undefined && { cost_usd: cost }),
+  };
+}
+
+/**
+ * Price of a model, matching dated snapshots such as `gpt-4o-mini-2024-07-18` to the longest
+ * priced name they start with
+ */
+export function findModelPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+  if (prices[model]) {
+    return prices[model];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * Usage in a single line, e.g. "12,345 tokens (10,000 prompt + 2,345 completion) in 20 requests, ~$0.0123"
+ */
+export function formatUsage(usage: TokenUsage): string {
+  const tokens =
+    `${usage.total_tokens.toLocaleString('en-US')} tokens ` +
+    `(${usage.prompt_tokens.toLocaleString('en-US')} prompt + ` +
+    `${usage.completion_tokens.toLocaleString('en-US')} completion)`;
+  const requests = `${usage.requests} request${usage.requests === 1 ? '' : 's'}`;
+  const cost = usage.cost_usd !== undefined ? `~${formatCost(usage.cost_usd)}` : 'cost unknown';
+  return `${tokens} in ${requests}, ${cost}`;
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+}